@@ -0,0 +1,99 @@
+import { ChangeEvent, useState } from 'react'
+import { Box, Button, Input, Progress, Text, VStack, useToast } from '@chakra-ui/react'
+import axios from 'axios'
+
+interface ImportResult {
+  plays: number
+  firstPlayedAt: string | null
+  lastPlayedAt: string | null
+}
+
+interface HistoryImportProps {
+  source?: 'spotify' | 'scrobbles'
+  onImported?: (result: ImportResult) => void
+}
+
+const SOURCES = {
+  spotify: {
+    title: 'Import your Spotify listening history',
+    description: 'Request your "Extended streaming history" from Spotify\'s privacy settings, then pick the Streaming_History_Audio files from the download.',
+    accept: '.json,application/json',
+    endpoint: '/api/import/spotify-history',
+    body: (text: string) => JSON.parse(text)
+  },
+  scrobbles: {
+    title: 'Import your Last.fm or ListenBrainz scrobbles',
+    description: 'Pick a Last.fm CSV export or the listens from a ListenBrainz export. Uploads add up, and listens already imported are skipped.',
+    accept: '.csv,.json,.jsonl,text/csv,application/json',
+    endpoint: '/api/import/scrobbles',
+    body: (text: string) => ({ content: text })
+  }
+}
+
+// Uploads listening history exports, one request per file to stay under the
+// body limit. Spotify's export is split into several Streaming_History_Audio
+// files that add up; scrobble exports are usually a single file.
+export default function HistoryImport({ source = 'spotify', onImported }: HistoryImportProps) {
+  const options = SOURCES[source]
+  const toast = useToast()
+  const [files, setFiles] = useState<File[]>([])
+  const [uploaded, setUploaded] = useState(0)
+  const [isImporting, setIsImporting] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(event.target.files || []))
+    setUploaded(0)
+    setResult(null)
+  }
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    try {
+      let latest: ImportResult | null = null
+      for (const [index, file] of files.entries()) {
+        const { data } = await axios.post<ImportResult>(options.endpoint, options.body(await file.text()))
+        latest = data
+        setUploaded(index + 1)
+      }
+      setResult(latest)
+      if (latest) onImported?.(latest)
+    } catch (error: any) {
+      toast({
+        title: 'Could not import your history',
+        description: error.response?.data?.message || (error instanceof SyntaxError ? 'One of the files is not valid JSON' : 'Please try again'),
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Box borderWidth={1} borderRadius="lg" p={5}>
+      <VStack spacing={3} align="stretch">
+        <Text fontWeight="bold">{options.title}</Text>
+        <Text fontSize="sm" color="gray.400">{options.description}</Text>
+        <Input type="file" accept={options.accept} multiple={source === 'spotify'} onChange={handleFiles} p={1} />
+        {isImporting && <Progress value={(uploaded / files.length) * 100} colorScheme="green" size="sm" />}
+        {result && (
+          <Text fontSize="sm">
+            {result.plays.toLocaleString()} plays imported
+            {result.firstPlayedAt && ` since ${new Date(result.firstPlayedAt).toLocaleDateString()}`}
+          </Text>
+        )}
+        <Button
+          colorScheme="green"
+          onClick={handleImport}
+          isLoading={isImporting}
+          loadingText={`Importing ${uploaded + 1} of ${files.length}`}
+          isDisabled={files.length === 0}
+        >
+          Import history
+        </Button>
+      </VStack>
+    </Box>
+  )
+}
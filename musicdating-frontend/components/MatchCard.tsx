@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { Box, Image, Text, IconButton, VStack, HStack } from '@chakra-ui/react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { FaHeart, FaTimes, FaPlay, FaPause } from 'react-icons/fa'
+import { MatchExplanation, describeSharedTaste } from '../utils/matchExplanation'
 
 const MotionBox = motion(Box)
 
@@ -11,6 +12,7 @@ interface MatchCardProps {
     photoUrl: string
     playlistName: string
     score: number
+    explanation?: MatchExplanation
   }
   onLike: () => void
   onPass: () => void
@@ -21,6 +23,7 @@ interface MatchCardProps {
 export default function MatchCard({ match, onLike, onPass, isPlaying, onTogglePlay }: MatchCardProps) {
   const [direction, setDirection] = useState<string>('')
   const [isDragging, setIsDragging] = useState(false)
+  const sharedTaste = match.explanation ? describeSharedTaste(match.explanation) : null
 
   const handleDragEnd = (event: any, info: any) => {
     setIsDragging(false)
@@ -100,6 +103,14 @@ export default function MatchCard({ match, onLike, onPass, isPlaying, onTogglePl
               >
                 {Math.round(match.score * 100)}% Match
               </Text>
+              {sharedTaste && (
+                <Text
+                  color="whiteAlpha.800"
+                  fontSize={{ base: "sm", md: "md" }}
+                >
+                  {sharedTaste}
+                </Text>
+              )}
             </VStack>
             <IconButton
               aria-label={isPlaying ? "Pause" : "Play"}
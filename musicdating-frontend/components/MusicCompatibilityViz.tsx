@@ -3,11 +3,13 @@ import { Box, Text, VStack, HStack, Progress } from '@chakra-ui/react'
 import { motion, useAnimation } from 'framer-motion'
 import * as d3 from 'd3'
 import { AdvancedPlaylistProfile } from '../types/music'
+import { MatchExplanation, describeSharedTaste } from '../utils/matchExplanation'
 
 interface MusicCompatibilityVizProps {
   userProfile: AdvancedPlaylistProfile
   matchProfile: AdvancedPlaylistProfile
   compatibilityScore: number
+  explanation?: MatchExplanation
 }
 
 const MotionBox = motion(Box)
@@ -15,10 +17,12 @@ const MotionBox = motion(Box)
 export default function MusicCompatibilityViz({
   userProfile,
   matchProfile,
-  compatibilityScore
+  compatibilityScore,
+  explanation
 }: MusicCompatibilityVizProps) {
   const svgRef = useRef<SVGSVGElement>(null)
   const controls = useAnimation()
+  const sharedTaste = explanation ? describeSharedTaste(explanation) : null
 
   useEffect(() => {
     if (!svgRef.current) return
@@ -190,6 +194,9 @@ export default function MusicCompatibilityViz({
         <Box w="full" p={4} bg="whiteAlpha.100" borderRadius="lg">
           <VStack align="start" spacing={3}>
             <Text fontWeight="bold">Shared Musical Interests</Text>
+            {sharedTaste && (
+              <Text fontSize="sm" color="gray.300">{sharedTaste}</Text>
+            )}
             <HStack flexWrap="wrap" spacing={2}>
               {userProfile.genreSignature.primary
                 .filter(genre => matchProfile.genreSignature.primary.includes(genre))
@@ -213,15 +220,34 @@ export default function MusicCompatibilityViz({
         <Box w="full" p={4} bg="whiteAlpha.100" borderRadius="lg">
           <VStack align="start" spacing={3}>
             <Text fontWeight="bold">Musical Compatibility</Text>
-            <HStack justify="space-between" w="full">
-              <Text fontSize="sm">Compatibility Score</Text>
-              <Progress
-                value={compatibilityScore * 100}
-                w="50%"
-                colorScheme="green"
-                size="sm"
-              />
-            </HStack>
+            {explanation && explanation.contributions.length > 0 ? (
+              explanation.contributions.map(contribution => (
+                <HStack key={contribution.scorer} justify="space-between" w="full">
+                  <Text fontSize="sm">{contribution.label}</Text>
+                  <HStack w="50%" spacing={2}>
+                    <Progress
+                      value={contribution.score * 100}
+                      flex={1}
+                      colorScheme="green"
+                      size="sm"
+                    />
+                    <Text fontSize="xs" color="gray.400" minW="40px" textAlign="right">
+                      +{Math.round(contribution.contribution * 100)}%
+                    </Text>
+                  </HStack>
+                </HStack>
+              ))
+            ) : (
+              <HStack justify="space-between" w="full">
+                <Text fontSize="sm">Compatibility Score</Text>
+                <Progress
+                  value={compatibilityScore * 100}
+                  w="50%"
+                  colorScheme="green"
+                  size="sm"
+                />
+              </HStack>
+            )}
           </VStack>
         </Box>
       </VStack>
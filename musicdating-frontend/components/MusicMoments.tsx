@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import {
   Box,
   VStack,
@@ -9,12 +9,23 @@ import {
   Badge,
   useToast,
   Fade,
-  Tooltip
+  Tooltip,
+  Avatar,
+  AvatarGroup,
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+  PopoverBody,
+  Spinner,
+  Select
 } from '@chakra-ui/react'
 import { keyframes } from '@emotion/react'
 import { motion } from 'framer-motion'
-import { FaHeadphones, FaHeart, FaComment, FaSpotify } from 'react-icons/fa'
+import { FaHeadphones, FaHeart, FaComment, FaSpotify, FaUserSecret } from 'react-icons/fa'
 import SpotifyPlayer from 'react-spotify-web-playback'
+import axios from 'axios'
+import { CoListener, MomentEvent, MusicMoment } from '../types/moments'
+import { MomentVisibility } from '../types/user'
 
 const pulseAnimation = keyframes`
   0% { transform: scale(1); }
@@ -22,57 +33,175 @@ const pulseAnimation = keyframes`
   100% { transform: scale(1); }
 `
 
-interface MusicMoment {
-  id: string
-  userId: string
-  userPhoto: string
-  userName: string
-  track: {
-    id: string
-    name: string
-    artist: string
-    albumArt: string
-  }
-  timestamp: Date
-  mood?: string
-  activity?: string
-  listeners: number
+// Used only when the stream is unavailable
+const POLL_INTERVAL = 30000
+// Publishing your own track is the only part that calls Spotify
+const TRACK_REFRESH_INTERVAL = 60000
+// Tracks with at least this many people on them at once get highlighted
+const POPULAR_LISTENERS = 3
+const INCOGNITO_HOURS = 1
+
+// Why /api/moments/current didn't share the track
+const NOT_SHARED_REASONS: Record<string, string> = {
+  nobody: 'Sharing is turned off',
+  incognito: 'You are incognito',
+  'hidden-artist': 'You hid this artist',
+  'hidden-genre': 'You hid this genre'
 }
 
 interface UserTrack {
   id: string
   name: string
   artist: string
+  artistId: string
   albumArt: string
 }
 
+const isMatch = (moment: MusicMoment, track: UserTrack | null) =>
+  Boolean(track) && (
+    moment.track.id === track!.id ||
+    (moment.track.artistId ? moment.track.artistId === track!.artistId : moment.track.artist === track!.artist)
+  )
+
+// Same order as the server's feed: closest taste first, then most recent
+const rankMoments = (moments: MusicMoment[]) =>
+  [...moments].sort((a, b) => b.similarity - a.similarity || b.timestamp.localeCompare(a.timestamp))
+
+// Listener counts key artists by ID, or by name for older moments
+const artistKey = (moment: MusicMoment) => moment.track.artistId ?? moment.track.artist
+
 export default function MusicMoments() {
   const [currentMoments, setCurrentMoments] = useState<MusicMoment[]>([])
   const [userTrack, setUserTrack] = useState<UserTrack | null>(null)
-  const [matches, setMatches] = useState<MusicMoment[]>([])
+  // Set when the current track was kept private
+  const [notSharedReason, setNotSharedReason] = useState<string | null>(null)
+  const [sharing, setSharing] = useState<{ visibility: MomentVisibility; incognito: boolean } | null>(null)
+  // Who's listening, loaded per track when its listener list is opened
+  const [coListeners, setCoListeners] = useState<Record<string, CoListener[]>>({})
+  // Stream handlers are registered once, so they read the track through a ref
+  const userTrackRef = useRef<UserTrack | null>(null)
+  const matches = useMemo(
+    () => currentMoments.filter(moment => isMatch(moment, userTrack)),
+    [currentMoments, userTrack]
+  )
   const toast = useToast()
 
+  const refreshUserTrack = async () => {
+    try {
+      const { data } = await axios.post<{ track: UserTrack | null; shared: boolean; reason: string | null }>(
+        '/api/moments/current'
+      )
+      userTrackRef.current = data.track
+      setUserTrack(data.track)
+      setNotSharedReason(data.shared ? null : data.reason)
+    } catch (error) {
+      console.error('Error updating your music moment:', error)
+    }
+  }
+
+  const updateSharing = async (update: { visibility?: MomentVisibility; incognitoHours?: number }) => {
+    try {
+      const { data } = await axios.put('/api/moments/settings', update)
+      setSharing({ visibility: data.visibility, incognito: data.incognito })
+      // The server took the live moment down; share again under the new settings
+      refreshUserTrack()
+    } catch (error) {
+      console.error('Error updating sharing settings:', error)
+    }
+  }
+
   useEffect(() => {
-    // Poll for current music moments
-    const interval = setInterval(fetchCurrentMoments, 30000)
+    axios.get('/api/moments/settings')
+      .then(({ data }) => setSharing({ visibility: data.visibility, incognito: data.incognito }))
+      .catch(error => console.error('Error fetching sharing settings:', error))
+  }, [])
+
+  useEffect(() => {
+    refreshUserTrack()
+    const interval = setInterval(refreshUserTrack, TRACK_REFRESH_INTERVAL)
     return () => clearInterval(interval)
   }, [])
 
+  useEffect(() => {
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    const startPolling = () => {
+      if (pollTimer) return
+      fetchCurrentMoments()
+      pollTimer = setInterval(fetchCurrentMoments, POLL_INTERVAL)
+    }
+
+    if (typeof EventSource === 'undefined') {
+      startPolling()
+      return () => clearInterval(pollTimer!)
+    }
+
+    const source = new EventSource('/api/moments/stream')
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data) as MomentEvent
+
+    source.addEventListener('snapshot', event => {
+      const data = parse(event)
+      if (data.type === 'snapshot') setCurrentMoments(data.moments)
+    })
+    const upsert = (event: Event) => {
+      const data = parse(event)
+      if (data.type !== 'added' && data.type !== 'changed') return
+      // One moment per user: a changed track replaces the old one
+      setCurrentMoments(moments => rankMoments([data.moment, ...moments.filter(moment => moment.userId !== data.moment.userId)]))
+      if (isMatch(data.moment, userTrackRef.current)) notifyMatches([data.moment])
+    }
+    source.addEventListener('added', upsert)
+    source.addEventListener('changed', upsert)
+    source.addEventListener('expired', event => {
+      const data = parse(event)
+      if (data.type === 'expired') setCurrentMoments(moments => moments.filter(moment => moment.userId !== data.userId))
+    })
+    source.addEventListener('listeners', event => {
+      const data = parse(event)
+      if (data.type !== 'listeners') return
+      setCurrentMoments(moments => moments.map(moment => ({
+        ...moment,
+        // Totals leave out moments shared with matches only, like this one may be
+        listeners: Math.max(1, data.tracks[moment.track.id] ?? moment.listeners),
+        artistListeners: Math.max(1, data.artists[artistKey(moment)] ?? moment.artistListeners)
+      })))
+    })
+    source.onerror = () => {
+      // EventSource reconnects by itself after a dropped connection, but
+      // gives up for good when the endpoint can't stream at all
+      if (source.readyState === EventSource.CLOSED) startPolling()
+    }
+
+    return () => {
+      source.close()
+      if (pollTimer) clearInterval(pollTimer)
+    }
+  }, [])
+
   const fetchCurrentMoments = async () => {
     // Get currently playing tracks from users in your area/preferences
-    const response = await fetch('/api/moments/current')
-    const moments = await response.json()
-    setCurrentMoments(moments)
-    
-    // Check for matches with your current track
-    if (userTrack) {
-      const matchingMoments = moments.filter((m: MusicMoment) => 
-        m.track.id === userTrack.id || 
-        m.track.artist === userTrack.artist
-      )
+    try {
+      const { data: moments } = await axios.get<MusicMoment[]>('/api/moments/current')
+      setCurrentMoments(moments)
+
+      // Check for matches with your current track
+      const matchingMoments = moments.filter(moment => isMatch(moment, userTrackRef.current))
       if (matchingMoments.length > 0) {
         notifyMatches(matchingMoments)
       }
+    } catch (error) {
+      console.error('Error fetching music moments:', error)
+    }
+  }
+
+  const fetchCoListeners = async (trackId: string) => {
+    try {
+      const { data } = await axios.get<{ listeners: number; coListeners: CoListener[] }>(
+        '/api/moments/listeners',
+        { params: { trackId } }
+      )
+      setCoListeners(lists => ({ ...lists, [trackId]: data.coListeners }))
+    } catch (error) {
+      console.error('Error fetching listeners:', error)
     }
   }
 
@@ -87,17 +216,31 @@ export default function MusicMoments() {
   }
 
   const handleConnect = async (moment: MusicMoment) => {
-    // Create a music-based chat room
-    const chatRoom = await fetch('/api/chat/create', {
-      method: 'POST',
-      body: JSON.stringify({
+    // Open (or reuse) a conversation seeded with the track
+    try {
+      const { data } = await axios.post<{ conversationId: string; created: boolean }>('/api/chat/create', {
         momentId: moment.id,
         trackId: moment.track.id
       })
-    })
-    
-    // Navigate to chat
-    // router.push(/chat/${chatRoom.id})
+      toast({
+        title: data.created ? 'Conversation started' : 'Back to your conversation',
+        description: `${moment.track.name} by ${moment.track.artist}`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      })
+
+      // Navigate to chat
+      // router.push(`/chat/${data.conversationId}`)
+    } catch (error: any) {
+      toast({
+        title: "Couldn't connect",
+        description: error.response?.data?.message || 'Something went wrong',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      })
+    }
   }
 
   return (
@@ -158,7 +301,7 @@ export default function MusicMoments() {
                 leftIcon={<FaSpotify />}
                 colorScheme="green"
                 variant="outline"
-                onClick={() => {/* Refresh Spotify status */}}
+                onClick={refreshUserTrack}
               >
                 Update Status
               </Button>
@@ -167,7 +310,34 @@ export default function MusicMoments() {
                   {matches.length} people listening
                 </Badge>
               )}
+              {userTrack && notSharedReason && (
+                <Tooltip label={NOT_SHARED_REASONS[notSharedReason]}>
+                  <Badge colorScheme="gray">Not shared</Badge>
+                </Tooltip>
+              )}
             </HStack>
+            {sharing && (
+              <HStack>
+                <Select
+                  size="sm"
+                  w="auto"
+                  value={sharing.visibility}
+                  onChange={event => updateSharing({ visibility: event.target.value as MomentVisibility })}
+                >
+                  <option value="everyone">Share with everyone</option>
+                  <option value="matches">Share with matches</option>
+                  <option value="nobody">Don't share</option>
+                </Select>
+                <Button
+                  size="sm"
+                  leftIcon={<FaUserSecret />}
+                  variant={sharing.incognito ? 'solid' : 'outline'}
+                  onClick={() => updateSharing({ incognitoHours: sharing.incognito ? 0 : INCOGNITO_HOURS })}
+                >
+                  {sharing.incognito ? 'End incognito' : `Incognito for ${INCOGNITO_HOURS}h`}
+                </Button>
+              </HStack>
+            )}
           </VStack>
         </HStack>
       </Box>
@@ -178,80 +348,129 @@ export default function MusicMoments() {
           Live Music Moments
         </Text>
         
-        {currentMoments.map(moment => (
-          <Box
-            key={moment.id}
-            w="full"
-            bg="whiteAlpha.50"
-            borderRadius="lg"
-            p={4}
-            _hover={{ bg: "whiteAlpha.100" }}
-            transition="all 0.2s"
-          >
-            <HStack spacing={4}>
-              <Image
-                src={moment.userPhoto}
-                boxSize="50px"
-                borderRadius="full"
-              />
-              
-              <VStack align="start" flex={1}>
-                <HStack justify="space-between" w="full">
-                  <Text fontWeight="bold">{moment.userName}</Text>
-                  <Text color="gray.400" fontSize="sm">
-                    {new Date(moment.timestamp).toLocaleTimeString()}
-                  </Text>
-                </HStack>
+        {currentMoments.map(moment => {
+          const isPopular = moment.listeners >= POPULAR_LISTENERS
+          return (
+            <Box
+              key={moment.id}
+              w="full"
+              bg="whiteAlpha.50"
+              borderRadius="lg"
+              borderWidth={isPopular ? 2 : 0}
+              borderColor="green.400"
+              p={4}
+              _hover={{ bg: "whiteAlpha.100" }}
+              transition="all 0.2s"
+            >
+              <HStack spacing={4}>
+                <Image
+                  src={moment.userPhoto}
+                  boxSize="50px"
+                  borderRadius="full"
+                />
                 
-                <HStack>
-                  <Image
-                    src={moment.track.albumArt}
-                    boxSize="40px"
-                    borderRadius="md"
-                  />
-                  <VStack align="start" spacing={0}>
-                    <Text fontSize="sm">{moment.track.name}</Text>
+                <VStack align="start" flex={1}>
+                  <HStack justify="space-between" w="full">
+                    <Text fontWeight="bold">{moment.userName}</Text>
+                    <Text color="gray.400" fontSize="sm">
+                      {new Date(moment.timestamp).toLocaleTimeString()}
+                    </Text>
+                  </HStack>
+                  
+                  <HStack>
+                    <Image
+                      src={moment.track.albumArt}
+                      boxSize="40px"
+                      borderRadius="md"
+                    />
+                    <VStack align="start" spacing={0}>
+                      <Text fontSize="sm">{moment.track.name}</Text>
+                      <Text fontSize="xs" color="gray.400">
+                        {moment.track.artist}
+                      </Text>
+                    </VStack>
+                  </HStack>
+                  
+                  {isPopular && (
+                    <HStack>
+                      <Badge colorScheme="green" fontSize="xs">
+                        {moment.listeners} listening now
+                      </Badge>
+                      {moment.coListeners.length > 0 && (
+                        <AvatarGroup size="xs" max={3}>
+                          {moment.coListeners.map(listener => (
+                            <Avatar key={listener.userId} name={listener.userName} src={listener.userPhoto} />
+                          ))}
+                        </AvatarGroup>
+                      )}
+                    </HStack>
+                  )}
+                  {moment.artistListeners > moment.listeners && (
                     <Text fontSize="xs" color="gray.400">
-                      {moment.track.artist}
+                      {moment.artistListeners} listening to {moment.track.artist}
                     </Text>
-                  </VStack>
-                </HStack>
-                
-                {moment.mood && (
-                  <Badge colorScheme="purple" fontSize="xs">
-                    Feeling {moment.mood}
-                  </Badge>
-                )}
-                
-                <HStack spacing={4}>
-                  <Tooltip label="Listen Together">
-                    <Button
-                      size="sm"
-                      leftIcon={<FaHeadphones />}
-                      colorScheme="green"
-                      variant="ghost"
-                      onClick={() => {/* Start shared listening */}}
-                    >
-                      Join ({moment.listeners})
-                    </Button>
-                  </Tooltip>
+                  )}
+
+                  {moment.mood && (
+                    <Badge colorScheme="purple" fontSize="xs">
+                      Feeling {moment.mood}
+                    </Badge>
+                  )}
                   
-                  <Tooltip label="Connect">
-                    <Button
-                      size="sm"
-                      leftIcon={<FaComment />}
-                      colorScheme="blue"
-                      variant="ghost"
-                      onClick={() => handleConnect(moment)}
-                    >
-                      Connect
-                    </Button>
-                  </Tooltip>
-                </HStack>
-              </VStack>
-            </HStack>
-          </Box>
-        ))}
+                  <HStack spacing={4}>
+                    <Tooltip label="Listen Together">
+                      <Button
+                        size="sm"
+                        leftIcon={<FaHeadphones />}
+                        colorScheme="green"
+                        variant="ghost"
+                        onClick={() => {/* Start shared listening */}}
+                      >
+                        Join ({moment.listeners})
+                      </Button>
+                    </Tooltip>
+
+                    <Popover isLazy onOpen={() => fetchCoListeners(moment.track.id)}>
+                      <PopoverTrigger>
+                        <Button size="sm" variant="ghost">
+                          Who's listening
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent>
+                        <PopoverBody>
+                          {!coListeners[moment.track.id] ? (
+                            <Spinner size="sm" />
+                          ) : (
+                            <VStack align="start">
+                              {coListeners[moment.track.id].map(listener => (
+                                <HStack key={listener.userId}>
+                                  <Avatar size="xs" name={listener.userName} src={listener.userPhoto} />
+                                  <Text fontSize="sm">{listener.userName}</Text>
+                                </HStack>
+                              ))}
+                            </VStack>
+                          )}
+                        </PopoverBody>
+                      </PopoverContent>
+                    </Popover>
+                    
+                    <Tooltip label="Connect">
+                      <Button
+                        size="sm"
+                        leftIcon={<FaComment />}
+                        colorScheme="blue"
+                        variant="ghost"
+                        onClick={() => handleConnect(moment)}
+                      >
+                        Connect
+                      </Button>
+                    </Tooltip>
+                  </HStack>
+                </VStack>
+              </HStack>
+            </Box>
+          )
+        })}
       </VStack>
 
       {/* Spotify Web Playback */}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { MongoServerError, ObjectId } from 'mongodb'
+import { openMomentConversation } from '../conversations'
+import { createFakeDb } from './fakeDb'
+
+const NOW = new Date('2024-06-01T12:00:00Z')
+const track = (id: string) => ({ id, name: id, artist: 'Artist', artistId: 'artist', albumArt: '' })
+
+describe('openMomentConversation', () => {
+  it('creates the conversation once and adds only tracks it does not end with', async () => {
+    const { db, collection } = createFakeDb()
+    const alice = new ObjectId()
+    const bob = new ObjectId()
+    const options = { momentId: new ObjectId(), matchId: null }
+
+    const first = await openMomentConversation(db, alice, bob, track('one'), options, NOW)
+    expect(first.created).toBe(true)
+    expect(first.conversation.messages).toHaveLength(1)
+
+    const again = await openMomentConversation(db, bob, alice, track('one'), options, NOW)
+    expect(again).toMatchObject({ created: false, conversation: { _id: first.conversation._id } })
+    expect(again.conversation.messages).toHaveLength(1)
+
+    const revived = await openMomentConversation(db, alice, bob, track('two'), options, NOW)
+    expect(revived.conversation.messages.map(message => message.track?.id)).toEqual(['one', 'two'])
+    expect(collection('conversations').docs).toHaveLength(1)
+  })
+
+  it('reuses the conversation a concurrent request inserted first', async () => {
+    const { db, collection } = createFakeDb()
+    const alice = new ObjectId()
+    const bob = new ObjectId()
+    const options = { momentId: new ObjectId(), matchId: null }
+    const conversations = collection('conversations')
+
+    // The other request's insert lands between this one's lookup and insert
+    const findOneAndUpdate = conversations.findOneAndUpdate.bind(conversations)
+    let raced = false
+    conversations.findOneAndUpdate = async (...args: Parameters<typeof findOneAndUpdate>) => {
+      if (!raced) {
+        raced = true
+        await openMomentConversation(db, bob, alice, track('one'), options, NOW)
+        throw new MongoServerError({ message: 'E11000 duplicate key error', code: 11000 })
+      }
+      return findOneAndUpdate(...args)
+    }
+
+    const result = await openMomentConversation(db, alice, bob, track('one'), options, NOW)
+    expect(result.created).toBe(false)
+    expect(conversations.docs).toHaveLength(1)
+    expect(result.conversation.startedBy).toEqual(bob)
+  })
+})
@@ -0,0 +1,139 @@
+import { Db, ObjectId } from 'mongodb'
+
+// In-memory stand-in for the few collection methods the lib modules use.
+// Supports equality (including array membership), $lt, $lte, $gt, $gte, $in
+// and $exists in filters, and $set, $setOnInsert, $push, $inc and $unset in
+// updates. Anything else throws so a test can't silently pass on it.
+
+type Doc = Record<string, any>
+
+function isPlainObject(value: any): value is Doc {
+  return value !== null && typeof value === 'object' && !(value instanceof ObjectId) &&
+    !(value instanceof Date) && !Array.isArray(value)
+}
+
+function equals(a: any, b: any): boolean {
+  if (a instanceof ObjectId || b instanceof ObjectId) {
+    return a instanceof ObjectId && b instanceof ObjectId && a.equals(b)
+  }
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  return a === b
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (!isPlainObject(condition)) {
+    return Array.isArray(value) ? value.some(entry => equals(entry, condition)) : equals(value, condition)
+  }
+
+  return Object.entries(condition).every(([operator, argument]) => {
+    switch (operator) {
+      case '$lt': return value !== undefined && value < argument
+      case '$lte': return value !== undefined && value <= argument
+      case '$gt': return value !== undefined && value > argument
+      case '$gte': return value !== undefined && value >= argument
+      case '$in': return (argument as any[]).some(entry => matchesCondition(value, entry))
+      case '$exists': return (value !== undefined) === argument
+      default: throw new Error(`fakeDb: unsupported operator ${operator}`)
+    }
+  })
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    if (field === '$or') return (condition as Doc[]).some(branch => matches(doc, branch))
+    return matchesCondition(doc[field], condition)
+  })
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean): Doc {
+  const next = { ...doc }
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [field, value] of Object.entries(fields as Doc)) {
+      switch (operator) {
+        case '$set': next[field] = value; break
+        case '$setOnInsert': if (inserting) next[field] = value; break
+        case '$push': next[field] = [...(next[field] ?? []), value]; break
+        case '$inc': next[field] = (next[field] ?? 0) + value; break
+        case '$unset': delete next[field]; break
+        default: throw new Error(`fakeDb: unsupported update ${operator}`)
+      }
+    }
+  }
+  return next
+}
+
+export class FakeCollection {
+  docs: Doc[] = []
+
+  async findOne(filter: Doc) {
+    const doc = this.docs.find(candidate => matches(candidate, filter))
+    return doc ? { ...doc } : null
+  }
+
+  find(filter: Doc = {}) {
+    const found = this.docs.filter(doc => matches(doc, filter)).map(doc => ({ ...doc }))
+    return { toArray: async () => found }
+  }
+
+  async insertOne(doc: Doc) {
+    const inserted = { _id: new ObjectId(), ...doc }
+    this.docs.push(inserted)
+    return { insertedId: inserted._id }
+  }
+
+  async findOneAndUpdate(
+    filter: Doc,
+    update: Doc,
+    { upsert = false, returnDocument = 'before' }: { upsert?: boolean; returnDocument?: 'before' | 'after' } = {}
+  ) {
+    const index = this.docs.findIndex(doc => matches(doc, filter))
+    if (index === -1) {
+      if (!upsert) return { value: null, lastErrorObject: { updatedExisting: false } }
+
+      const equalities = Object.fromEntries(
+        Object.entries(filter).filter(([field, value]) => !field.startsWith('$') && !isPlainObject(value))
+      )
+      const inserted = applyUpdate({ _id: new ObjectId(), ...equalities }, update, true)
+      this.docs.push(inserted)
+      return {
+        value: returnDocument === 'after' ? { ...inserted } : null,
+        lastErrorObject: { updatedExisting: false, upserted: inserted._id }
+      }
+    }
+
+    const before = this.docs[index]
+    this.docs[index] = applyUpdate(before, update, false)
+    return {
+      value: { ...(returnDocument === 'after' ? this.docs[index] : before) },
+      lastErrorObject: { updatedExisting: true }
+    }
+  }
+
+  async updateOne(filter: Doc, update: Doc, { upsert = false }: { upsert?: boolean } = {}) {
+    const result = await this.findOneAndUpdate(filter, update, { upsert })
+    return {
+      matchedCount: result.lastErrorObject.updatedExisting ? 1 : 0,
+      modifiedCount: result.lastErrorObject.updatedExisting ? 1 : 0,
+      upsertedId: 'upserted' in result.lastErrorObject ? result.lastErrorObject.upserted : null
+    }
+  }
+
+  async updateMany(filter: Doc, update: Doc) {
+    let modifiedCount = 0
+    this.docs = this.docs.map(doc => {
+      if (!matches(doc, filter)) return doc
+      modifiedCount++
+      return applyUpdate(doc, update, false)
+    })
+    return { matchedCount: modifiedCount, modifiedCount }
+  }
+}
+
+export function createFakeDb() {
+  const collections = new Map<string, FakeCollection>()
+  const collection = (name: string) => {
+    if (!collections.has(name)) collections.set(name, new FakeCollection())
+    return collections.get(name)!
+  }
+  return { db: { collection } as unknown as Db, collection }
+}
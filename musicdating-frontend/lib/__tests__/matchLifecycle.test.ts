@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+import { ObjectId } from 'mongodb'
+import {
+  EXPIRY_WINDOWS,
+  MatchStatus,
+  MatchTransitionError,
+  assertTransition,
+  canTransition,
+  createTransition,
+  expireStaleMatches,
+  transitionMatch
+} from '../matchLifecycle'
+import { MatchDocument, getPairKey } from '../matches'
+import { createFakeDb } from './fakeDb'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = new Date('2024-06-01T12:00:00Z')
+
+function createMatch(status: MatchStatus, statusChangedAt: Date = NOW): MatchDocument {
+  const users = [new ObjectId(), new ObjectId()] as [ObjectId, ObjectId]
+  return {
+    _id: new ObjectId(),
+    users,
+    pairKey: getPairKey(users[0], users[1]),
+    initiatorId: users[0],
+    status,
+    statusChangedAt,
+    transitions: [createTransition(null, status, users[0], statusChangedAt)],
+    superLike: false,
+    createdAt: statusChangedAt
+  }
+}
+
+describe('canTransition', () => {
+  it.each([
+    ['pending', 'mutual'],
+    ['pending', 'expired'],
+    ['mutual', 'conversation-started'],
+    ['conversation-started', 'unmatched'],
+    ['unmatched', 'blocked'],
+    ['expired', 'pending']
+  ] as [MatchStatus, MatchStatus][])('allows %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true)
+  })
+
+  it.each([
+    ['pending', 'conversation-started'],
+    ['conversation-started', 'expired'],
+    ['unmatched', 'pending'],
+    ['expired', 'mutual'],
+    ['blocked', 'pending'],
+    ['mutual', 'mutual']
+  ] as [MatchStatus, MatchStatus][])('rejects %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false)
+  })
+})
+
+describe('assertTransition', () => {
+  it('throws a MatchTransitionError naming both states', () => {
+    expect(() => assertTransition('blocked', 'mutual')).toThrow(MatchTransitionError)
+    expect(() => assertTransition('blocked', 'mutual')).toThrow('Cannot move match from "blocked" to "mutual"')
+  })
+
+  it('passes legal transitions', () => {
+    expect(() => assertTransition('pending', 'mutual')).not.toThrow()
+  })
+})
+
+describe('transitionMatch', () => {
+  it('updates the status and appends the transition', async () => {
+    const { db, collection } = createFakeDb()
+    const match = createMatch('pending')
+    collection('matches').docs.push(match)
+
+    const updated = await transitionMatch(db, match._id!, 'mutual', match.users[1])
+
+    expect(updated.status).toBe('mutual')
+    expect(updated.transitions).toHaveLength(2)
+    expect(updated.transitions[1]).toMatchObject({ from: 'pending', to: 'mutual', by: match.users[1] })
+  })
+
+  it('applies extra fields in the same update', async () => {
+    const { db } = createFakeDb()
+    const match = createMatch('expired')
+    await db.collection('matches').insertOne(match)
+
+    const updated = await transitionMatch(db, match._id!, 'pending', match.users[1], {
+      initiatorId: match.users[1],
+      superLike: true
+    })
+
+    expect(updated).toMatchObject({ status: 'pending', initiatorId: match.users[1], superLike: true })
+  })
+
+  it('rejects illegal transitions without writing', async () => {
+    const { db, collection } = createFakeDb()
+    const match = createMatch('blocked')
+    collection('matches').docs.push(match)
+
+    await expect(transitionMatch(db, match._id!, 'mutual', null)).rejects.toThrow(MatchTransitionError)
+    expect(collection('matches').docs[0].status).toBe('blocked')
+  })
+
+  it('loses a race when the status changes between reading and updating', async () => {
+    const { db, collection } = createFakeDb()
+    const matches = collection('matches')
+    const match = createMatch('mutual')
+    matches.docs.push(match)
+
+    // Another request unmatches right after this one read the match
+    const findOne = matches.findOne.bind(matches)
+    matches.findOne = async filter => {
+      const found = await findOne(filter)
+      await matches.updateOne({ _id: match._id }, { $set: { status: 'unmatched' } })
+      return found
+    }
+
+    await expect(transitionMatch(db, match._id!, 'conversation-started', match.users[0]))
+      .rejects.toThrow('Match was updated concurrently')
+    expect(matches.docs[0].status).toBe('unmatched')
+  })
+
+  it('throws when the match does not exist', async () => {
+    const { db } = createFakeDb()
+    await expect(transitionMatch(db, new ObjectId(), 'mutual', null)).rejects.toThrow('not found')
+  })
+})
+
+describe('expireStaleMatches', () => {
+  it('expires pending and mutual matches idle past their window', async () => {
+    const { db, collection } = createFakeDb()
+    const stalePending = createMatch('pending', new Date(NOW.getTime() - EXPIRY_WINDOWS.pending! - DAY))
+    const freshPending = createMatch('pending', new Date(NOW.getTime() - DAY))
+    const staleMutual = createMatch('mutual', new Date(NOW.getTime() - EXPIRY_WINDOWS.mutual! - DAY))
+    const oldConversation = createMatch('conversation-started', new Date(NOW.getTime() - 365 * DAY))
+    collection('matches').docs.push(stalePending, freshPending, staleMutual, oldConversation)
+
+    expect(await expireStaleMatches(db, NOW)).toBe(2)
+
+    const statuses = collection('matches').docs.map(match => match.status)
+    expect(statuses).toEqual(['expired', 'pending', 'expired', 'conversation-started'])
+
+    const expired = collection('matches').docs[2]
+    expect(expired.statusChangedAt).toEqual(NOW)
+    expect(expired.transitions[expired.transitions.length - 1]).toEqual(
+      createTransition('mutual', 'expired', null, NOW)
+    )
+  })
+
+  it('does nothing when nothing is stale', async () => {
+    const { db, collection } = createFakeDb()
+    collection('matches').docs.push(createMatch('pending', NOW))
+    expect(await expireStaleMatches(db, NOW)).toBe(0)
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PREFERENCES, parseProfileUpdate, validatePreferences } from '../matchPreferences'
+
+const NOW = new Date('2024-06-01T12:00:00Z')
+
+describe('validatePreferences', () => {
+  const current = { maxDistanceKm: 20, ageRange: { min: 25, max: 40 }, lookingFor: ['woman'] }
+
+  it('keeps the fields a partial update leaves out', () => {
+    expect(validatePreferences({ maxDistanceKm: 100 }, current)).toEqual({ ...current, maxDistanceKm: 100 })
+    expect(validatePreferences({ ageRange: { max: 35 } }, current)).toEqual({ ...current, ageRange: { min: 25, max: 35 } })
+  })
+
+  it('fills in defaults for users without preferences', () => {
+    expect(validatePreferences({ lookingFor: ['man'] })).toEqual({ ...DEFAULT_PREFERENCES, lookingFor: ['man'] })
+  })
+
+  it('rejects an age range below 18 or upside down', () => {
+    expect(validatePreferences({ ageRange: { min: 17 } }, current)).toMatch('ageRange')
+    expect(validatePreferences({ ageRange: { min: 45 } }, current)).toMatch('ageRange')
+  })
+})
+
+describe('parseProfileUpdate', () => {
+  it('merges preferences onto the stored ones', () => {
+    const user = { preferences: { maxDistanceKm: 20, ageRange: { min: 25, max: 40 }, lookingFor: [] } }
+    expect(parseProfileUpdate({ preferences: { lookingFor: ['man'] } }, user, NOW)).toEqual({
+      preferences: { maxDistanceKm: 20, ageRange: { min: 25, max: 40 }, lookingFor: ['man'] }
+    })
+  })
+
+  it('accepts birthdates of adults', () => {
+    expect(parseProfileUpdate({ birthdate: '1990-05-17' }, {}, NOW)).toEqual({ birthdate: new Date('1990-05-17') })
+    expect(parseProfileUpdate({ birthdate: '2006-05-31' }, {}, NOW)).toEqual({ birthdate: new Date('2006-05-31') })
+  })
+
+  it('rejects birthdates in the future or under 18', () => {
+    expect(parseProfileUpdate({ birthdate: '2030-01-01' }, {}, NOW)).toBe('birthdate cannot be in the future')
+    expect(parseProfileUpdate({ birthdate: '2010-01-01' }, {}, NOW)).toBe('You must be at least 18 to use the app')
+    expect(parseProfileUpdate({ birthdate: 'not a date' }, {}, NOW)).toBe('birthdate must be a date')
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { ObjectId } from 'mongodb'
+import { recordLike } from '../matches'
+import { transitionMatch } from '../matchLifecycle'
+import { createFakeDb } from './fakeDb'
+
+describe('recordLike', () => {
+  it('creates a pending match, then completes it when the other user likes back', async () => {
+    const { db } = createFakeDb()
+    const alice = new ObjectId()
+    const bob = new ObjectId()
+
+    const first = await recordLike(db, alice, bob, false)
+    expect(first.outcome).toBe('pending')
+    expect(await recordLike(db, alice, bob, false)).toEqual(first)
+
+    const second = await recordLike(db, bob, alice, false)
+    expect(second).toEqual({ outcome: 'matched', matchId: first.matchId })
+    expect((await recordLike(db, alice, bob, false)).outcome).toBe('already-matched')
+  })
+
+  it('reopens an expired match with the new liker as initiator', async () => {
+    const { db, collection } = createFakeDb()
+    const alice = new ObjectId()
+    const bob = new ObjectId()
+    const { matchId } = await recordLike(db, alice, bob, false)
+    await transitionMatch(db, matchId, 'expired', null)
+
+    expect(await recordLike(db, bob, alice, true)).toEqual({ outcome: 'pending', matchId })
+    expect(collection('matches').docs[0]).toMatchObject({ status: 'pending', initiatorId: bob, superLike: true })
+
+    expect((await recordLike(db, alice, bob, false)).outcome).toBe('matched')
+  })
+
+  it.each(['unmatched', 'blocked'] as const)('keeps %s matches closed', async status => {
+    const { db, collection } = createFakeDb()
+    const alice = new ObjectId()
+    const bob = new ObjectId()
+    const { matchId } = await recordLike(db, alice, bob, false)
+    await transitionMatch(db, matchId, status, alice)
+
+    expect(await recordLike(db, bob, alice, false)).toEqual({ outcome: 'closed', matchId })
+    expect(collection('matches').docs[0].status).toBe(status)
+  })
+})
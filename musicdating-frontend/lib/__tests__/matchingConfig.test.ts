@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { loadRankingStrategy, validateScorerWeights } from '../matchingConfig'
+
+describe('loadRankingStrategy', () => {
+  it('loads named strategies from config/matching.json', () => {
+    const strategy = loadRankingStrategy('balanced', undefined)
+    expect(strategy.name).toBe('balanced')
+    expect(Object.keys(strategy.weights)).toContain('taste-overlap')
+  })
+
+  it('rejects unknown strategy names, including inherited properties', () => {
+    expect(() => loadRankingStrategy('nope', undefined)).toThrow('Unknown matching strategy "nope"')
+    expect(() => loadRankingStrategy('toString', undefined)).toThrow('Unknown matching strategy')
+  })
+
+  it('uses MATCH_SCORER_WEIGHTS over the named strategy', () => {
+    expect(loadRankingStrategy('balanced', '{"playlist": 1}')).toEqual({ name: 'custom', weights: { playlist: 1 } })
+  })
+
+  it.each([
+    ['not JSON', '{playlist: 1}', 'must be a JSON object'],
+    ['an array', '[1, 2]', 'must be a JSON object'],
+    ['a number', '3', 'must be a JSON object'],
+    ['null', 'null', 'must be a JSON object'],
+    ['an unknown scorer', '{"vibes": 1}', 'unknown scorer "vibes"'],
+    ['a negative weight', '{"playlist": -0.5}', 'must be a non-negative number'],
+    ['a string weight', '{"playlist": "1"}', 'must be a non-negative number'],
+    ['only zero weights', '{"playlist": 0}', 'at least one weight above zero'],
+    ['no weights', '{}', 'at least one weight above zero']
+  ])('rejects an override that is %s', (_, override, message) => {
+    expect(() => loadRankingStrategy('balanced', override)).toThrow(message)
+  })
+})
+
+describe('validateScorerWeights', () => {
+  it('names the source in errors', () => {
+    expect(() => validateScorerWeights({ playlist: Infinity }, 'Matching strategy "x"'))
+      .toThrow('Matching strategy "x" weight for "playlist" must be a non-negative number')
+  })
+})
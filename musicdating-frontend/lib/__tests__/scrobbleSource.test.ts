@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { parseScrobbles, toImportedPlays } from '../scrobbleSource'
+import { ListeningHistoryMatcher } from '../../utils/listeningHistoryMatcher'
+
+const SPOTIFY_TRACK = '4uLU6hMCjMI75M1A2tKUQC'
+
+describe('toImportedPlays', () => {
+  const listens = [
+    {
+      listened_at: 1700000000,
+      track_metadata: {
+        artist_name: 'Daft Punk',
+        track_name: 'One More Time',
+        release_name: 'Discovery',
+        additional_info: { duration_ms: 320000, spotify_id: `https://open.spotify.com/track/${SPOTIFY_TRACK}` }
+      }
+    },
+    { listened_at: 1700003600, track_metadata: { artist_name: 'daft punk', track_name: 'one more time' } },
+    { listened_at: 1700007200, track_metadata: { artist_name: 'Air', track_name: 'La Femme d\'Argent' } }
+  ]
+
+  it('stores every scrobble as a full, unskipped play', () => {
+    const plays = parseScrobbles(JSON.stringify(listens))
+    if (typeof plays === 'string') throw new Error(plays)
+
+    const imported = toImportedPlays(plays)
+    expect(imported[0]).toEqual({
+      trackId: SPOTIFY_TRACK,
+      trackName: 'One More Time',
+      artistName: 'Daft Punk',
+      albumName: 'Discovery',
+      playedAt: new Date(1700000000 * 1000),
+      msPlayed: 320000,
+      skipped: false,
+      reasonStart: null,
+      reasonEnd: null,
+      shuffle: null,
+      source: 'scrobbles'
+    })
+    expect(imported[2]).toMatchObject({
+      trackId: 'name:air|la femme d\'argent',
+      msPlayed: ListeningHistoryMatcher.LISTENING_THRESHOLD * 1000
+    })
+  })
+
+  it('gives listens of the same track the best ID any of them carries', () => {
+    const plays = parseScrobbles(JSON.stringify(listens))
+    if (typeof plays === 'string') throw new Error(plays)
+
+    expect(toImportedPlays(plays)[1].trackId).toBe(SPOTIFY_TRACK)
+  })
+})
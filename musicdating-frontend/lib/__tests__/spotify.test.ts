@@ -0,0 +1,43 @@
+import { createRequire } from 'module'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createSpotifyClient } from '../spotify'
+
+// The same module instance spotify-web-api-node sends its requests through
+const HttpManager = createRequire(import.meta.url)('spotify-web-api-node/src/http-manager')
+const originalGet = HttpManager.get
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('createSpotifyClient', () => {
+  afterEach(() => {
+    HttpManager.get = originalGet
+  })
+
+  it('keeps interleaved requests on their own access tokens', async () => {
+    // Echo the token each request was sent with; the first one answers last
+    HttpManager.get = (request: any, callback: (error: Error | null, response?: object) => void) => {
+      const token = request.getHeaders().Authorization.replace('Bearer ', '')
+      setTimeout(() => callback(null, { body: { id: token }, headers: {}, statusCode: 200 }), token === 'alice-token' ? 20 : 5)
+    }
+
+    const handleRequest = async (accessToken: string, delay: number) => {
+      const client = createSpotifyClient(accessToken)
+      // Let the other request create its client before this one calls out
+      await sleep(delay)
+      const me = await client.getMe()
+      return { clientToken: client.getAccessToken(), sentToken: me.body.id }
+    }
+
+    const [alice, bob] = await Promise.all([
+      handleRequest('alice-token', 10),
+      handleRequest('bob-token', 0)
+    ])
+
+    expect(alice).toEqual({ clientToken: 'alice-token', sentToken: 'alice-token' })
+    expect(bob).toEqual({ clientToken: 'bob-token', sentToken: 'bob-token' })
+  })
+
+  it('creates clients without a token when none is given', () => {
+    expect(createSpotifyClient().getAccessToken()).toBeUndefined()
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { SpotifyGateway, isRetryable } from '../spotifyGateway'
+import { MemoryTokenBucket, SharedTokenBucket, TokenBucket } from '../rateLimit'
+
+const httpError = (statusCode: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${statusCode}`), { statusCode, headers })
+
+describe('isRetryable', () => {
+  it.each([429, 500, 502, 503])('retries HTTP %i', status => {
+    expect(isRetryable(httpError(status))).toBe(true)
+  })
+
+  it.each([400, 401, 403, 404])('does not retry HTTP %i', status => {
+    expect(isRetryable(httpError(status))).toBe(false)
+  })
+
+  it('retries connection failures and timeouts', () => {
+    expect(isRetryable(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true)
+    expect(isRetryable(Object.assign(new Error('timeout'), { name: 'TimeoutError' }))).toBe(true)
+  })
+
+  it('does not retry errors that never reached Spotify for other reasons', () => {
+    expect(isRetryable(new TypeError('Cannot read properties of undefined'))).toBe(false)
+    expect(isRetryable(Object.assign(new Error('bad host'), { code: 'ENOTFOUND' }))).toBe(false)
+    expect(isRetryable(undefined)).toBe(false)
+  })
+})
+
+describe('SpotifyGateway', () => {
+  const failingTimes = (times: number, error: () => unknown) => {
+    let calls = 0
+    const request = async () => {
+      calls++
+      if (calls <= times) throw error()
+      return { body: { calls } }
+    }
+    return { request, calls: () => calls }
+  }
+
+  it('retries server errors and resolves with the body', async () => {
+    const gateway = new SpotifyGateway({ baseDelayMs: 0 })
+    const { request } = failingTimes(2, () => httpError(503))
+
+    expect(await gateway.call('getMe', request)).toEqual({ calls: 3 })
+    const metrics = await gateway.getMetrics()
+    expect(metrics).toMatchObject({ requests: 3, succeeded: 1, retries: 2, serverErrors: 2 })
+  })
+
+  it('fails fast on errors that are not retryable', async () => {
+    const gateway = new SpotifyGateway({ baseDelayMs: 0 })
+    const { request, calls } = failingTimes(1, () => new TypeError('boom'))
+
+    await expect(gateway.call('getMe', request)).rejects.toThrow('boom')
+    expect(calls()).toBe(1)
+    expect(await gateway.getMetrics()).toMatchObject({ failed: 1, retries: 0, serverErrors: 0 })
+  })
+
+  it('gives up after maxRetries', async () => {
+    const gateway = new SpotifyGateway({ baseDelayMs: 0, maxRetries: 2 })
+    const { request, calls } = failingTimes(10, () => httpError(500))
+
+    await expect(gateway.call('getMe', request)).rejects.toThrow('HTTP 500')
+    expect(calls()).toBe(3)
+  })
+
+  it('pauses the shared bucket for the Retry-After window of a 429', async () => {
+    const pauses: number[] = []
+    const bucket: TokenBucket = {
+      take: async () => 0,
+      pause: async until => { pauses.push(until) },
+      available: async () => 1
+    }
+    const gateway = new SpotifyGateway({ bucket })
+    const { request } = failingTimes(1, () => httpError(429, { 'retry-after': '0' }))
+
+    const before = Date.now()
+    await gateway.call('getMe', request)
+
+    expect(pauses).toHaveLength(1)
+    expect(pauses[0]).toBeGreaterThanOrEqual(before)
+    expect((await gateway.getMetrics()).throttled).toBe(1)
+  })
+
+  it('still pauses the shared bucket when Retry-After is too long to wait', async () => {
+    const pauses: number[] = []
+    const bucket: TokenBucket = {
+      take: async () => 0,
+      pause: async until => { pauses.push(until) },
+      available: async () => 1
+    }
+    const gateway = new SpotifyGateway({ bucket, maxDelayMs: 1000 })
+    const { request, calls } = failingTimes(1, () => httpError(429, { 'retry-after': '60' }))
+
+    const before = Date.now()
+    await expect(gateway.call('getMe', request)).rejects.toThrow('HTTP 429')
+    expect(calls()).toBe(1)
+    expect(pauses).toHaveLength(1)
+    expect(pauses[0]).toBeGreaterThanOrEqual(before + 60 * 1000)
+  })
+})
+
+describe('SharedTokenBucket', () => {
+  it('falls back to a local bucket while the database is unreachable', async () => {
+    const bucket = new SharedTokenBucket('test', { capacity: 3, refillPerSecond: 1 }, async () => {
+      throw new Error('connect ECONNREFUSED')
+    })
+    expect(await bucket.take()).toBe(0)
+    expect(await bucket.available()).toBeCloseTo(2, 0)
+  })
+})
+
+describe('MemoryTokenBucket', () => {
+  it('makes callers wait once the burst is used up', async () => {
+    const bucket = new MemoryTokenBucket({ capacity: 2, refillPerSecond: 10 })
+    expect(await bucket.take()).toBe(0)
+    expect(await bucket.take()).toBe(0)
+    // One token short at 10 per second
+    const wait = await bucket.take()
+    expect(wait).toBeGreaterThan(90)
+    expect(wait).toBeLessThanOrEqual(100)
+  })
+
+  it('holds callers back while paused', async () => {
+    const bucket = new MemoryTokenBucket({ capacity: 5, refillPerSecond: 10 })
+    await bucket.pause(Date.now() + 1000)
+    expect(await bucket.take()).toBeGreaterThan(900)
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { ObjectId } from 'mongodb'
+import { buildTasteIndex, withTasteTimestamp } from '../tasteIndex'
+import { TASTE_VECTOR_LENGTH } from '../../utils/tasteVector'
+
+const NOW = new Date('2024-06-01T12:00:00Z')
+
+describe('withTasteTimestamp', () => {
+  it.each(['musicProfile', 'playlistProfile', 'listenerPersonality'])('stamps updates that write %s', field => {
+    expect(withTasteTimestamp({ [field]: {} }, NOW)).toEqual({ [field]: {}, musicProfileUpdatedAt: NOW })
+  })
+
+  it('leaves other updates alone', () => {
+    const update = { listeningHistorySync: { error: null } }
+    expect(withTasteTimestamp(update, NOW)).toBe(update)
+  })
+})
+
+describe('buildTasteIndex', () => {
+  it('indexes users with a usable taste vector only', () => {
+    const vector = (value: number) => Array.from({ length: TASTE_VECTOR_LENGTH }, () => value)
+    const withSignal = { _id: new ObjectId(), tasteVector: vector(0.5) }
+
+    const index = buildTasteIndex([
+      withSignal,
+      { _id: new ObjectId(), tasteVector: vector(0) },
+      { _id: new ObjectId(), tasteVector: [0.5, 0.5] },
+      { _id: new ObjectId() }
+    ])
+
+    expect(index.size).toBe(1)
+    expect(index.has(withSignal._id.toString())).toBe(true)
+  })
+})
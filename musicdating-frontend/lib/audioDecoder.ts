@@ -0,0 +1,125 @@
+import { MPEGDecoder } from 'mpg123-decoder'
+
+// Mono PCM in [-1, 1]; every feature we extract works on a downmix
+export interface DecodedAudio {
+  samples: Float32Array
+  sampleRate: number
+}
+
+export class AudioDecodeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AudioDecodeError'
+  }
+}
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)))
+}
+
+function downmix(channels: Float32Array[], length: number): Float32Array {
+  if (channels.length === 1) return channels[0].subarray(0, length)
+
+  const mono = new Float32Array(length)
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length
+  })
+  return mono
+}
+
+/**
+ * Reads integer PCM (8, 16, 24 or 32 bit) and 32-bit float WAV files,
+ * including WAVE_FORMAT_EXTENSIBLE headers, and downmixes them to mono.
+ */
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+  if (bytes.length < 12 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WAVE') {
+    throw new AudioDecodeError('Not a RIFF/WAVE file')
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let format: { tag: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null
+
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const id = ascii(bytes, offset, 4)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (id === 'fmt ') {
+      let tag = view.getUint16(body, true)
+      // Extensible headers keep the real format in the first two bytes of the subformat GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 26) tag = view.getUint16(body + 24, true)
+      format = {
+        tag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      }
+    } else if (id === 'data') {
+      if (!format) throw new AudioDecodeError('WAV data chunk comes before its fmt chunk')
+      return { samples: readPcm(view, body, Math.min(size, bytes.length - body), format), sampleRate: format.sampleRate }
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2)
+  }
+
+  throw new AudioDecodeError('WAV file has no data chunk')
+}
+
+function readPcm(
+  view: DataView,
+  start: number,
+  length: number,
+  format: { tag: number; channels: number; bitsPerSample: number }
+): Float32Array {
+  const { tag, channels: channelCount, bitsPerSample } = format
+  const bytesPerSample = bitsPerSample / 8
+  const isFloat = tag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32
+  if (!(isFloat || (tag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample))) || channelCount === 0) {
+    throw new AudioDecodeError(`Unsupported WAV encoding (format ${tag}, ${bitsPerSample} bit)`)
+  }
+
+  const frames = Math.floor(length / (bytesPerSample * channelCount))
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frames))
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const offset = start + (frame * channelCount + channel) * bytesPerSample
+      let value: number
+      if (isFloat) value = view.getFloat32(offset, true)
+      else if (bitsPerSample === 8) value = (view.getUint8(offset) - 128) / 128 // 8-bit WAV is unsigned
+      else if (bitsPerSample === 16) value = view.getInt16(offset, true) / 32768
+      else if (bitsPerSample === 24) {
+        const raw = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16)
+        value = raw / 8388608
+      } else value = view.getInt32(offset, true) / 2147483648
+      channels[channel][frame] = value
+    }
+  }
+
+  return downmix(channels, frames)
+}
+
+export async function decodeMp3(bytes: Uint8Array): Promise<DecodedAudio> {
+  const decoder = new MPEGDecoder()
+  await decoder.ready
+  try {
+    const { channelData, samplesDecoded, sampleRate } = decoder.decode(bytes)
+    if (samplesDecoded === 0) throw new AudioDecodeError('No MPEG audio frames found')
+    return { samples: downmix(channelData, samplesDecoded), sampleRate }
+  } finally {
+    decoder.free()
+  }
+}
+
+// Spotify previews are MP3; WAV is accepted for uploads and local testing
+export async function decodeAudio(bytes: Uint8Array): Promise<DecodedAudio> {
+  if (ascii(bytes, 0, 4) === 'RIFF') return decodeWav(bytes)
+  // An ID3 tag or an MPEG frame sync (11 set bits)
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return decodeMp3(bytes)
+  throw new AudioDecodeError('Unrecognized audio format; expected MP3 or WAV')
+}
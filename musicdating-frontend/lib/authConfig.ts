@@ -0,0 +1,6 @@
+// Shared by the NextAuth route and server code that reads the JWT directly
+export const AUTH_SECRET = process.env.NEXTAUTH_SECRET || 'a-default-secret-for-development-only'
+
+const isVercelProduction = process.env.VERCEL_URL && process.env.NODE_ENV === 'production'
+
+export const USE_SECURE_COOKIES = Boolean(isVercelProduction || process.env.NODE_ENV === 'production')
@@ -0,0 +1,195 @@
+import { Db, ObjectId } from 'mongodb'
+import { getCompositeRanker } from './matchingConfig'
+import { CandidateDocument, searchCandidates, streamCandidates } from './candidateSearch'
+import { findNearestUsers, refreshTasteIndex } from './tasteIndex'
+import { UserDocument } from '../types/user'
+import { MatchExplanation } from '../utils/matchExplanation'
+import { ScoredCandidate } from '../utils/compositeRanker'
+
+export interface PooledCandidate {
+  userId: ObjectId
+  score: number
+  distance: number | null
+  explanation: MatchExplanation
+}
+
+export interface CandidatePoolDocument {
+  _id?: ObjectId
+  userId: ObjectId
+  strategy: string
+  candidates: PooledCandidate[] // best first
+  computedAt: Date
+}
+
+export const POOL_SIZE = 200
+// Nearest taste neighbors retrieved from the vector index per user
+export const NEAREST_NEIGHBORS = 500
+// Candidates read and ranked at a time when the index comes up short
+export const SCAN_BATCH_SIZE = 500
+// Scheduled pools scan everyone in range; pools computed inside a
+// /api/match request stop after this many (nearest first with a location)
+export const ON_DEMAND_SCAN_LIMIT = 500
+export const POOL_MAX_AGE = 6 * 60 * 60 * 1000 // 6 hours
+
+export function isPoolFresh(pool: CandidatePoolDocument | null, now: number = Date.now()): boolean {
+  return pool !== null && now - pool.computedAt.getTime() < POOL_MAX_AGE
+}
+
+export async function getCandidatePool(db: Db, userId: ObjectId): Promise<CandidatePoolDocument | null> {
+  return db.collection<CandidatePoolDocument>('candidatePools').findOne({ userId })
+}
+
+// Merges newly ranked candidates into the best ones found so far
+function keepBest(
+  best: PooledCandidate[],
+  ranked: (CandidateDocument & ScoredCandidate)[]
+): PooledCandidate[] {
+  return best
+    .concat(ranked.map(candidate => ({
+      userId: candidate._id,
+      score: candidate.score,
+      distance: candidate.distance ?? null,
+      explanation: candidate.explanation
+    })))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, POOL_SIZE)
+}
+
+/**
+ * Ranks the user's candidates and stores the best POOL_SIZE. Swiped and
+ * blocking users are left out by the candidate search. `scanLimit` bounds
+ * the top-up scan for pools computed while a request waits.
+ */
+export async function computeCandidatePool(
+  db: Db,
+  user: UserDocument,
+  { now = new Date(), scanLimit }: { now?: Date; scanLimit?: number } = {}
+): Promise<CandidatePoolDocument> {
+  const ranker = getCompositeRanker()
+  const context = { now: now.getTime() }
+
+  // Start from the nearest neighbors in taste space; preference and distance
+  // filters can leave too few of them, so top up with a filtered scan
+  const nearest = await findNearestUsers(db, user, NEAREST_NEIGHBORS)
+  const neighbors = nearest && nearest.length > 0
+    ? await searchCandidates(db, user, { filter: { _id: { $in: nearest } }, limit: nearest.length })
+    : []
+  let best = keepBest([], ranker.rank(user, neighbors, context))
+
+  if (neighbors.length < POOL_SIZE) {
+    // Only the best POOL_SIZE are kept between batches, so the scan can go
+    // through everyone in range without holding them all in memory
+    const cursor = streamCandidates(db, user, {
+      excludedIds: neighbors.map(candidate => candidate._id),
+      limit: scanLimit
+    }).batchSize(SCAN_BATCH_SIZE)
+
+    let batch: CandidateDocument[] = []
+    for await (const candidate of cursor) {
+      batch.push(candidate)
+      if (batch.length === SCAN_BATCH_SIZE) {
+        best = keepBest(best, ranker.rank(user, batch, context))
+        batch = []
+      }
+    }
+    best = keepBest(best, ranker.rank(user, batch, context))
+  }
+
+  const pool: CandidatePoolDocument = {
+    userId: user._id,
+    strategy: ranker.name,
+    candidates: best,
+    computedAt: now
+  }
+
+  await db.collection<CandidatePoolDocument>('candidatePools').updateOne(
+    { userId: user._id },
+    { $set: pool },
+    { upsert: true }
+  )
+
+  return pool
+}
+
+/**
+ * Recomputes stale or missing pools, most recently active users first.
+ * `batchSize` bounds the work per run so the job fits in a serverless
+ * function timeout; users left over are picked up by the next run.
+ */
+export async function refreshCandidatePools(
+  db: Db,
+  { batchSize = 50, now = new Date() }: { batchSize?: number; now?: Date } = {}
+): Promise<{ refreshed: number; failed: number }> {
+  // Pools are only as good as the vectors they are retrieved with
+  await refreshTasteIndex(db)
+
+  // Each user's pool is looked up by its unique userId index, so this reads
+  // only as far down the activity order as it takes to fill a batch
+  const users = await db.collection('users')
+    .aggregate([
+      { $sort: { lastActive: -1 } },
+      {
+        $lookup: {
+          from: 'candidatePools',
+          localField: '_id',
+          foreignField: 'userId',
+          pipeline: [{ $project: { computedAt: 1 } }],
+          as: 'pool'
+        }
+      },
+      // No pool, or one computed before the cutoff
+      { $match: { 'pool.computedAt': { $not: { $gte: new Date(now.getTime() - POOL_MAX_AGE) } } } },
+      { $limit: batchSize },
+      { $unset: 'pool' }
+    ])
+    .toArray() as UserDocument[]
+
+  let refreshed = 0
+  let failed = 0
+  for (const user of users) {
+    try {
+      await computeCandidatePool(db, user, { now })
+      refreshed++
+    } catch (error) {
+      console.error(`Error computing candidate pool for ${user._id}:`, error)
+      failed++
+    }
+  }
+
+  return { refreshed, failed }
+}
+
+// Pool cursors point at a position in one specific pool, so a recomputed pool
+// restarts from the top (anything already served is in the ledger by then).
+// A cursor past the last entry asks /api/match for a new pool.
+export function createPoolCursor(pool: CandidatePoolDocument, index: number): string {
+  return `pool.${pool.computedAt.getTime()}.${index}`
+}
+
+export function parsePoolCursor(cursor: string | undefined): { computedAt: number; index: number } | null {
+  const match = cursor?.match(/^pool\.(\d+)\.(\d+)$/)
+  return match ? { computedAt: Number(match[1]), index: Number(match[2]) } : null
+}
+
+export function getPoolPage(
+  pool: CandidatePoolDocument,
+  excludedIds: ObjectId[],
+  cursor: string | undefined,
+  limit: number
+): { entries: PooledCandidate[]; nextCursor: string | null } {
+  const parsed = parsePoolCursor(cursor)
+  const excluded = new Set(excludedIds.map(id => id.toString()))
+  const entries: PooledCandidate[] = []
+
+  let index = parsed && parsed.computedAt === pool.computedAt.getTime() ? parsed.index : 0
+  for (; index < pool.candidates.length && entries.length < limit; index++) {
+    if (!excluded.has(pool.candidates[index].userId.toString())) {
+      entries.push(pool.candidates[index])
+    }
+  }
+
+  return {
+    entries,
+    nextCursor: index < pool.candidates.length ? createPoolCursor(pool, index) : null
+  }
+}
@@ -0,0 +1,83 @@
+import { AggregationCursor, Db, ObjectId } from 'mongodb'
+import { createGeoNearStage } from './database'
+import {
+  createMutualDistanceStage,
+  createPreferenceQuery,
+  getPreferences,
+  roundDistanceKm
+} from './matchPreferences'
+import { createSwipeExclusionStages } from './swipes'
+import { UserDocument } from '../types/user'
+import { MatchExplanation } from '../utils/matchExplanation'
+
+export type CandidateDocument = UserDocument & { distance?: number }
+
+export interface CandidateSearchOptions {
+  // Extra users to leave out, on top of swiped and blocking ones. Keep it
+  // bounded (e.g. candidates already found); it becomes a $nin.
+  excludedIds?: ObjectId[]
+  filter?: object
+  sort?: Record<string, 1 | -1> // nearest first with a location, unsorted otherwise
+  limit?: number // everyone who qualifies when omitted
+}
+
+/**
+ * Candidates within the user's range and mutual preferences that the user
+ * hasn't swiped on and who haven't blocked them. Shared by on-demand and
+ * scheduled pool computation so both apply the same filters. Read the cursor
+ * in batches to go through more candidates than fit in memory.
+ */
+export function streamCandidates(
+  db: Db,
+  user: UserDocument,
+  { excludedIds = [], filter = {}, sort, limit }: CandidateSearchOptions = {}
+): AggregationCursor<CandidateDocument> {
+  const candidateQuery = {
+    $and: [
+      filter,
+      { _id: { $nin: [user._id, ...excludedIds] } },
+      createPreferenceQuery(user)
+    ]
+  }
+  const filterStages = user.location
+    ? [
+      createGeoNearStage(
+        user.location.coordinates[0],
+        user.location.coordinates[1],
+        getPreferences(user).maxDistanceKm * 1000,
+        candidateQuery
+      ),
+      createMutualDistanceStage()
+    ]
+    : [{ $match: candidateQuery }]
+
+  return db.collection('users').aggregate<CandidateDocument>([
+    ...filterStages,
+    ...createSwipeExclusionStages(user._id),
+    ...(sort ? [{ $sort: sort }] : []),
+    ...(limit !== undefined ? [{ $limit: limit }] : [])
+  ])
+}
+
+export async function searchCandidates(
+  db: Db,
+  user: UserDocument,
+  options: CandidateSearchOptions = {}
+): Promise<CandidateDocument[]> {
+  return streamCandidates(db, user, options).toArray()
+}
+
+// Public shape of a candidate in /api/match responses
+export function formatCandidate(
+  candidate: UserDocument,
+  scored: { score: number; explanation: MatchExplanation; distance?: number | null }
+) {
+  return {
+    id: candidate._id,
+    playlistId: candidate.playlistId,
+    photoUrl: candidate.photoUrl,
+    score: scored.score,
+    explanation: scored.explanation,
+    distanceKm: scored.distance != null ? roundDistanceKm(scored.distance) : null,
+  }
+}
@@ -0,0 +1,100 @@
+import { Db, MongoServerError, ObjectId } from 'mongodb'
+import { getPairKey } from './matches'
+import { MomentTrack } from './musicMoments'
+
+export interface ConversationMessage {
+  senderId: ObjectId | null // null for messages the app adds, like shared tracks
+  timestamp: Date
+  text?: string
+  // Set on track messages: the moment that led to (or revived) the conversation
+  track?: MomentTrack & { momentId: ObjectId; sharedBy: ObjectId }
+}
+
+export interface ConversationDocument {
+  _id?: ObjectId
+  users: [ObjectId, ObjectId]
+  // Sorted "<id>_<id>" like matches, so each pair has one conversation
+  pairKey: string
+  matchId: ObjectId | null // null when started from a moment without a match
+  startedBy: ObjectId
+  messages: ConversationMessage[]
+  createdAt: Date
+  lastMessageAt: Date
+}
+
+const DUPLICATE_KEY = 11000
+
+// Whether the conversation's latest message already shares `trackId`, in
+// which case opening it from a moment of that track changes nothing
+export function endsWithTrack(conversation: ConversationDocument, trackId: string): boolean {
+  return conversation.messages[conversation.messages.length - 1]?.track?.id === trackId
+}
+
+// The pair's conversation, however it was started
+export async function findPairConversation(db: Db, userId: ObjectId, otherId: ObjectId) {
+  return db.collection<ConversationDocument>('conversations').findOne({ pairKey: getPairKey(userId, otherId) })
+}
+
+/**
+ * Opens the pair's conversation from a Music Moment, seeded with the track
+ * as its opening message, or reuses the one they already have. A reused
+ * conversation gets the track added unless it's already the latest message.
+ */
+export async function openMomentConversation(
+  db: Db,
+  userId: ObjectId,
+  otherId: ObjectId,
+  track: MomentTrack,
+  { momentId, matchId }: { momentId: ObjectId; matchId: ObjectId | null },
+  now: Date = new Date()
+): Promise<{ conversation: ConversationDocument; created: boolean }> {
+  const conversations = db.collection<ConversationDocument>('conversations')
+  const users = [userId, otherId].sort((a, b) => a.toString().localeCompare(b.toString())) as [ObjectId, ObjectId]
+  const message: ConversationMessage = {
+    senderId: null,
+    timestamp: now,
+    track: { ...track, momentId, sharedBy: otherId }
+  }
+
+  const pairKey = getPairKey(userId, otherId)
+  const upsert = () => conversations.findOneAndUpdate(
+    { pairKey },
+    {
+      $setOnInsert: {
+        users,
+        pairKey,
+        startedBy: userId,
+        messages: [message],
+        createdAt: now,
+        lastMessageAt: now,
+        ...(matchId ? {} : { matchId: null })
+      },
+      // A match made since the conversation started is linked from then on
+      ...(matchId ? { $set: { matchId } } : {})
+    },
+    { upsert: true, returnDocument: 'after' }
+  )
+
+  let result
+  try {
+    result = await upsert()
+  } catch (error) {
+    // Both users opened it at once and the other insert won the unique
+    // pairKey; this time the update finds their conversation
+    if (!(error instanceof MongoServerError && error.code === DUPLICATE_KEY)) throw error
+    result = await upsert()
+  }
+  const conversation = result.value!
+  const created = result.lastErrorObject?.upserted !== undefined
+
+  if (created || endsWithTrack(conversation, track.id)) {
+    return { conversation, created }
+  }
+
+  const updated = await conversations.findOneAndUpdate(
+    { _id: conversation._id },
+    { $push: { messages: message }, $set: { lastMessageAt: now } },
+    { returnDocument: 'after' }
+  )
+  return { conversation: updated.value!, created }
+}
@@ -1,4 +1,5 @@
-import { MongoClient } from 'mongodb'
+import { MongoClient, ObjectId } from 'mongodb'
+import { ARTIST_CACHE_TTL, ARTIST_NAME_COLLATION, TRACK_CACHE_TTL } from './spotifyCache'
 
 const MONGODB_URI = process.env.MONGODB_URI!
 const MONGODB_DB = process.env.MONGODB_DB!
@@ -28,15 +29,57 @@ export async function connectToDatabase() {
     db.collection('users').createIndex({ "location": "2dsphere" }),
     db.collection('users').createIndex({ "lastActive": 1 }),
     db.collection('users').createIndex({ "spotifyId": 1 }, { unique: true }),
+    db.collection('users').createIndex({ "listeningHistorySync.polledAt": 1 }),
+    // Users the recently-played poller picks from (lib/listeningHistoryPoller)
+    db.collection('users').createIndex(
+      { "spotifyLinked": 1, "listeningHistorySync.polledAt": 1 },
+      { partialFilterExpression: { "spotifyLinked": true } }
+    ),
     
     // Matches collection indexes
     db.collection('matches').createIndex({ "users": 1 }),
     db.collection('matches').createIndex({ "createdAt": 1 }),
     db.collection('matches').createIndex({ "status": 1 }),
+    db.collection('matches').createIndex({ "pairKey": 1 }, { unique: true }),
+    db.collection('matches').createIndex({ "status": 1, "statusChangedAt": 1 }),
+
+    // Swipe ledger indexes (one decision per user pair)
+    db.collection('swipes').createIndex({ "userId": 1, "targetId": 1 }, { unique: true }),
+    db.collection('swipes').createIndex({ "targetId": 1, "action": 1 }),
+    // Only 'seen' entries carry expiresAt (lib/swipes)
+    db.collection('swipes').createIndex({ "expiresAt": 1 }, { expireAfterSeconds: 0 }),
     
+    // Candidate pools (precomputed by /api/jobs/candidate-pools)
+    db.collection('candidatePools').createIndex({ "userId": 1 }, { unique: true }),
+    db.collection('candidatePools').createIndex({ "computedAt": 1 }),
+
+    // Spotify catalog caches (see lib/spotifyCache), expired by TTL
+    db.collection('trackCache').createIndex({ "cachedAt": 1 }, { expireAfterSeconds: TRACK_CACHE_TTL }),
+    db.collection('artistCache').createIndex({ "cachedAt": 1 }, { expireAfterSeconds: ARTIST_CACHE_TTL }),
+    db.collection('artistCache').createIndex({ "data.name": 1 }, { collation: ARTIST_NAME_COLLATION }),
+
+    // Fixed-window counters (lib/rateLimit), removed once their window ends
+    db.collection('rateLimits').createIndex({ "expiresAt": 1 }, { expireAfterSeconds: 0 }),
+
+    // Music Moments (lib/musicMoments): one per user, swept for expiry
+    db.collection('musicMoments').createIndex({ "userId": 1 }),
+    db.collection('musicMoments').createIndex({ "timestamp": -1 }),
+    db.collection('musicMoments').createIndex({ "location": "2dsphere", "timestamp": -1 }),
+    db.collection('momentHistory').createIndex({ "userId": 1, "_id": -1 }),
+    db.collection('momentHistory').createIndex({
+      "sharedAt": 1
+    }, {
+      expireAfterSeconds: 30 * 24 * 60 * 60 // Auto-delete after 30 days
+    }),
+
     // Conversations collection indexes
     db.collection('conversations').createIndex({ "matchId": 1 }),
     db.collection('conversations').createIndex({ "lastMessageAt": 1 }),
+    // One conversation per pair for those opened from moments (lib/conversations)
+    db.collection('conversations').createIndex(
+      { "pairKey": 1 },
+      { unique: true, partialFilterExpression: { "pairKey": { $exists: true } } }
+    ),
     db.collection('conversations').createIndex({ 
       "messages.timestamp": 1,
       "messages.senderId": 1 
@@ -51,7 +94,14 @@ export async function connectToDatabase() {
       "timestamp": 1 
     }, { 
       expireAfterSeconds: 30 * 24 * 60 * 60 // Auto-delete after 30 days
-    })
+    }),
+    // Every play is keyed on playedAt (lib/listeningHistoryImport); only
+    // polled plays also set timestamp and so expire through the TTL index
+    db.collection('listeningHistory').createIndex({ "userId": 1, "playedAt": -1 }),
+    db.collection('listeningHistory').createIndex(
+      { "userId": 1, "trackId": 1, "playedAt": 1 },
+      { unique: true, partialFilterExpression: { "playedAt": { $exists: true } } }
+    )
   ])
 
   cachedClient = client
@@ -68,6 +118,26 @@ export function createPaginationQuery(page: number, limit: number) {
   }
 }
 
+// Cursor pagination over _id. Unlike skip-based pages this stays stable when
+// documents before the cursor are added or excluded between requests.
+export function createCursorPaginationQuery(cursor: string | undefined, limit: number) {
+  return {
+    filter: cursor ? { _id: { $gt: new ObjectId(cursor) } } : {},
+    sort: { _id: 1 as const },
+    limit: limit + 1 // one extra document tells us whether there is a next page
+  }
+}
+
+export function getCursorPage<T extends { _id: ObjectId }>(documents: T[], limit: number) {
+  const items = documents.slice(0, limit)
+  return {
+    items,
+    nextCursor: documents.length > limit ? items[items.length - 1]._id.toString() : null
+  }
+}
+
+export { toObjectId } from './objectId'
+
 // Utility function for geospatial queries
 export function createLocationQuery(longitude: number, latitude: number, maxDistance: number) {
   return {
@@ -82,3 +152,28 @@ export function createLocationQuery(longitude: number, latitude: number, maxDist
     }
   }
 }
+
+// Aggregation form of createLocationQuery. $geoNear has to be the first stage
+// of a pipeline, so any other filters go into `query`, and it adds the
+// distance in meters as `distanceField` for later stages.
+export function createGeoNearStage(
+  longitude: number,
+  latitude: number,
+  maxDistance: number,
+  query: object = {},
+  distanceField: string = 'distance'
+) {
+  return {
+    $geoNear: {
+      near: {
+        type: "Point",
+        coordinates: [longitude, latitude]
+      },
+      key: "location",
+      distanceField,
+      maxDistance,
+      query,
+      spherical: true
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { NextApiRequest } from 'next'
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET`; anything else is
+// rejected, including every request when the secret isn't configured.
+export function isAuthorizedJobRequest(req: NextApiRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  return Boolean(secret) && req.headers.authorization === `Bearer ${secret}`
+}
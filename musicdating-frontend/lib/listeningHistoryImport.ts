@@ -0,0 +1,312 @@
+import { Db, ObjectId } from 'mongodb'
+import SpotifyWebApi from 'spotify-web-api-node'
+import { findCachedArtistsByName, getCachedArtists } from './spotifyCache'
+import { SpotifyMusicSource } from './spotifySource'
+import { withTasteTimestamp } from './tasteIndex'
+import {
+  ListeningHistoryMatcher,
+  StoredHistorySummary,
+  UserMusicProfile
+} from '../utils/listeningHistoryMatcher'
+import { MusicProfileSource } from '../types/user'
+
+// One entry of Spotify's "Extended streaming history" export
+// (Streaming_History_Audio_*.json). Only the fields we read are listed.
+export interface StreamingHistoryEntry {
+  ts: string // ISO time the play ended
+  ms_played: number
+  spotify_track_uri: string | null // null for podcast episodes
+  master_metadata_track_name: string | null
+  master_metadata_album_artist_name: string | null
+  master_metadata_album_album_name: string | null
+  reason_start?: string | null
+  reason_end?: string | null
+  shuffle?: boolean | null
+  skipped?: boolean | null
+}
+
+export interface ListeningHistoryDocument {
+  _id?: ObjectId
+  userId: ObjectId
+  trackId: string
+  trackName: string
+  artistName: string
+  albumName: string | null
+  // Plays are keyed on playedAt. Only polled plays (lib/listeningHistoryPoller)
+  // also set timestamp, so the 30-day TTL index ages them out while
+  // imported exports and scrobbles are kept
+  playedAt: Date
+  timestamp?: Date
+  msPlayed: number
+  skipped: boolean
+  reasonStart: string | null
+  reasonEnd: string | null
+  shuffle: boolean | null
+  source: 'spotify-export' | 'spotify-recently-played' | 'scrobbles'
+  importedAt: Date
+}
+
+export type ImportedPlay = Omit<ListeningHistoryDocument, '_id' | 'userId' | 'importedAt'>
+
+// Most played artists kept on the profile; track caps come from the matcher
+export const HISTORY_PROFILE_ARTISTS = 50
+
+const IMPORT_BATCH_SIZE = 1000
+const TRACK_URI = /^spotify:track:([0-9A-Za-z]{22})$/
+const SPOTIFY_ID = /^[0-9A-Za-z]{22}$/
+const PATTERNS = ['morningTracks', 'afternoonTracks', 'eveningTracks', 'weekendTracks'] as const
+
+/**
+ * Validates the contents of one export file. Podcast episodes, videos and
+ * entries without track metadata are counted in `ignored` rather than
+ * rejecting the whole file.
+ */
+export function parseStreamingHistory(input: unknown): { plays: ImportedPlay[]; ignored: number } | string {
+  if (!Array.isArray(input)) {
+    return 'Expected the contents of a Streaming_History_Audio JSON file (an array of plays)'
+  }
+
+  const plays: ImportedPlay[] = []
+  let ignored = 0
+
+  input.forEach((entry: Partial<StreamingHistoryEntry>) => {
+    const trackId = typeof entry?.spotify_track_uri === 'string' && entry.spotify_track_uri.match(TRACK_URI)?.[1]
+    const playedAt = typeof entry?.ts === 'string' ? new Date(entry.ts) : null
+    if (
+      !trackId ||
+      !playedAt ||
+      Number.isNaN(playedAt.getTime()) ||
+      typeof entry.ms_played !== 'number' ||
+      !entry.master_metadata_track_name ||
+      !entry.master_metadata_album_artist_name
+    ) {
+      ignored++
+      return
+    }
+
+    plays.push({
+      trackId,
+      trackName: entry.master_metadata_track_name,
+      artistName: entry.master_metadata_album_artist_name,
+      albumName: entry.master_metadata_album_album_name ?? null,
+      playedAt,
+      msPlayed: entry.ms_played,
+      // Older exports leave `skipped` null; a forward-button end is a skip too
+      skipped: entry.skipped === true || entry.reason_end === 'fwdbtn',
+      reasonStart: entry.reason_start ?? null,
+      reasonEnd: entry.reason_end ?? null,
+      shuffle: entry.shuffle ?? null,
+      source: 'spotify-export'
+    })
+  })
+
+  return { plays, ignored }
+}
+
+/**
+ * Stores plays, ignoring ones already imported (the unique index on
+ * userId + trackId + playedAt makes re-uploading the same file a no-op).
+ */
+export async function importListeningHistory(
+  db: Db,
+  userId: ObjectId,
+  plays: ImportedPlay[],
+  now: Date = new Date()
+): Promise<{ imported: number; duplicates: number }> {
+  const collection = db.collection<ListeningHistoryDocument>('listeningHistory')
+  let imported = 0
+
+  for (let start = 0; start < plays.length; start += IMPORT_BATCH_SIZE) {
+    const result = await collection.bulkWrite(
+      plays.slice(start, start + IMPORT_BATCH_SIZE).map(play => ({
+        updateOne: {
+          filter: { userId, trackId: play.trackId, playedAt: play.playedAt },
+          update: { $setOnInsert: { ...play, userId, importedAt: now } },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    )
+    imported += result.upsertedCount
+  }
+
+  return { imported, duplicates: plays.length - imported }
+}
+
+interface HistoryAggregate {
+  tracks: StoredHistorySummary['tracks']
+  artists: { _id: string; plays: number; trackId: string }[]
+  slots: { _id: string; trackIds: string[] }[]
+  totals: { plays: number; firstPlayedAt: Date; lastPlayedAt: Date }[]
+}
+
+/**
+ * Summarizes all of a user's imported plays in one aggregation. Only plays
+ * that were listened to past the matcher's threshold and not skipped count.
+ * Time slots use UTC, which is what the export records.
+ */
+export async function summarizeListeningHistory(db: Db, userId: ObjectId) {
+  const [aggregate] = await db.collection<ListeningHistoryDocument>('listeningHistory').aggregate<HistoryAggregate>([
+    {
+      $match: {
+        userId,
+        playedAt: { $exists: true },
+        skipped: false,
+        msPlayed: { $gte: ListeningHistoryMatcher.LISTENING_THRESHOLD * 1000 }
+      }
+    },
+    {
+      $facet: {
+        tracks: [
+          {
+            $group: {
+              _id: '$trackId',
+              plays: { $sum: 1 },
+              lastPlayedAt: { $max: '$playedAt' },
+              averageMsPlayed: { $avg: '$msPlayed' }
+            }
+          },
+          { $sort: { lastPlayedAt: -1 } },
+          { $limit: ListeningHistoryMatcher.MAX_PROFILE_TRACKS },
+          {
+            $project: {
+              _id: 0,
+              trackId: '$_id',
+              plays: 1,
+              lastPlayedAt: { $toLong: '$lastPlayedAt' },
+              averageMsPlayed: 1
+            }
+          }
+        ],
+        // Most played artists, with their most played track so the artist
+        // can be looked up on Spotify (the export only has artist names)
+        artists: [
+          { $group: { _id: { artistName: '$artistName', trackId: '$trackId' }, plays: { $sum: 1 } } },
+          { $sort: { plays: -1 } },
+          { $group: { _id: '$_id.artistName', plays: { $sum: '$plays' }, trackId: { $first: '$_id.trackId' } } },
+          { $sort: { plays: -1 } },
+          { $limit: HISTORY_PROFILE_ARTISTS }
+        ],
+        slots: [
+          {
+            $project: {
+              trackId: 1,
+              slots: {
+                $concatArrays: [
+                  [{
+                    $switch: {
+                      branches: [
+                        { case: { $and: [{ $gte: [{ $hour: '$playedAt' }, 5] }, { $lt: [{ $hour: '$playedAt' }, 12] }] }, then: 'morningTracks' },
+                        { case: { $and: [{ $gte: [{ $hour: '$playedAt' }, 12] }, { $lt: [{ $hour: '$playedAt' }, 18] }] }, then: 'afternoonTracks' }
+                      ],
+                      default: 'eveningTracks'
+                    }
+                  }],
+                  { $cond: [{ $in: [{ $dayOfWeek: '$playedAt' }, [1, 7]] }, ['weekendTracks'], []] }
+                ]
+              }
+            }
+          },
+          { $unwind: '$slots' },
+          { $group: { _id: { slot: '$slots', trackId: '$trackId' }, plays: { $sum: 1 } } },
+          { $sort: { plays: -1 } },
+          { $group: { _id: '$_id.slot', trackIds: { $push: '$_id.trackId' } } },
+          { $project: { trackIds: { $slice: ['$trackIds', ListeningHistoryMatcher.MAX_PATTERN_TRACKS] } } }
+        ],
+        totals: [
+          { $group: { _id: null, plays: { $sum: 1 }, firstPlayedAt: { $min: '$playedAt' }, lastPlayedAt: { $max: '$playedAt' } } }
+        ]
+      }
+    }
+  ]).toArray()
+
+  const listeningPatterns = Object.fromEntries(
+    PATTERNS.map(pattern => [pattern, aggregate.slots.find(slot => slot._id === pattern)?.trackIds || []])
+  ) as UserMusicProfile['listeningPatterns']
+
+  return {
+    summary: { tracks: aggregate.tracks, listeningPatterns } as StoredHistorySummary,
+    topArtists: aggregate.artists.map(artist => ({ name: artist._id, plays: artist.plays, trackId: artist.trackId })),
+    totals: aggregate.totals[0] || null
+  }
+}
+
+// Stored plays name artists but have no artist IDs. Plays with a Spotify
+// track ID are resolved through the track's credited artist with the same
+// name. The rest (scrobbles without Spotify IDs, or every play when the user
+// has no Spotify client) are matched by name against artistCache
+async function resolveArtists(
+  db: Db,
+  spotifyApi: SpotifyWebApi | null,
+  artists: { name: string; trackId: string }[]
+): Promise<SpotifyApi.ArtistObjectFull[]> {
+  const viaTracks = spotifyApi ? artists.filter(artist => SPOTIFY_ID.test(artist.trackId)) : []
+  const idsByName = new Map<string, string>()
+  let found = new Map<string, SpotifyApi.ArtistObjectFull>()
+
+  if (spotifyApi && viaTracks.length > 0) {
+    const tracks = await new SpotifyMusicSource(spotifyApi).getTracks(viaTracks.map(artist => artist.trackId))
+    const tracksById = new Map(tracks.map(track => [track.id, track]))
+
+    viaTracks.forEach(artist => {
+      const credited = tracksById.get(artist.trackId)?.artists || []
+      const id = (credited.find(candidate => candidate.name === artist.name) || credited[0])?.id
+      if (id) idsByName.set(artist.name, id)
+    })
+    found = await getCachedArtists(db, spotifyApi, [...idsByName.values()])
+  }
+
+  const byId = (name: string) => {
+    const id = idsByName.get(name)
+    return id ? found.get(id) : undefined
+  }
+  const byName = await findCachedArtistsByName(db, artists.map(artist => artist.name).filter(name => !byId(name)))
+
+  const resolved = new Map<string, SpotifyApi.ArtistObjectFull>()
+  artists.forEach(artist => {
+    const match = byId(artist.name) || byName.get(artist.name.toLowerCase())
+    if (match && !resolved.has(match.id)) resolved.set(match.id, match)
+  })
+  return [...resolved.values()]
+}
+
+// Music profile from every stored play, imported, scrobbled or polled.
+// Without a Spotify client, artists are only found in artistCache
+export async function buildProfileFromHistory(db: Db, spotifyApi: SpotifyWebApi | null, userId: ObjectId) {
+  const { summary, topArtists, totals } = await summarizeListeningHistory(db, userId)
+  const artists = await resolveArtists(db, spotifyApi, topArtists)
+  return { musicProfile: new ListeningHistoryMatcher().analyzeStoredHistory(summary, artists), totals }
+}
+
+/**
+ * Rebuilds the user's music profile from everything imported so far and
+ * stores it as a `source` profile ('history-import' by default).
+ */
+export async function rebuildProfileFromHistory(
+  db: Db,
+  spotifyApi: SpotifyWebApi | null,
+  userId: ObjectId,
+  { now = new Date(), source = 'history-import' }: { now?: Date; source?: MusicProfileSource } = {}
+) {
+  const { musicProfile, totals } = await buildProfileFromHistory(db, spotifyApi, userId)
+
+  const historyImport = {
+    plays: totals?.plays ?? 0,
+    firstPlayedAt: totals?.firstPlayedAt ?? null,
+    lastPlayedAt: totals?.lastPlayedAt ?? null,
+    importedAt: now
+  }
+
+  await db.collection('users').updateOne(
+    { _id: userId },
+    {
+      $set: withTasteTimestamp({
+        musicProfile,
+        musicProfileSource: source,
+        historyImport
+      }, now)
+    }
+  )
+
+  return { musicProfile, historyImport }
+}
@@ -0,0 +1,165 @@
+import { Db, ObjectId } from 'mongodb'
+import SpotifyWebApi from 'spotify-web-api-node'
+import { SourcePlay } from './musicSource'
+import { SpotifyMusicSource } from './spotifySource'
+import { getSpotifyAccountsLinkedAfter, getSpotifyApiForUser, SpotifyNotLinkedError } from './spotifyTokens'
+import { buildProfileFromHistory, ImportedPlay, importListeningHistory } from './listeningHistoryImport'
+import { withTasteTimestamp } from './tasteIndex'
+import { ListeningHistorySync, MusicProfileSource, UserDocument } from '../types/user'
+
+// Spotify keeps the last 50 plays, roughly three hours of listening, so
+// polling more often than this only costs requests
+export const POLL_INTERVAL = 60 * 60 * 1000 // 1 hour
+
+// Qualifying plays needed before stored history replaces a questionnaire
+// profile; a handful of plays says little about someone's taste
+export const MIN_PROFILE_PLAYS = 25
+
+// Profiles built from uploads that are stored in listeningHistory too
+const IMPORTED_SOURCES: MusicProfileSource[] = ['history-import', 'scrobbles']
+
+// Spotify accounts read per run to flag newly linked users
+const LINKED_ACCOUNTS_BATCH = 1000
+const LINKED_ACCOUNTS_CURSOR = 'listening-history:linked-accounts'
+
+interface JobStateDocument {
+  _id: string
+  cursor: ObjectId
+}
+
+function toStoredPlay(play: SourcePlay): ImportedPlay {
+  const playedAt = new Date(play.playedAt)
+  return {
+    trackId: play.track.id,
+    trackName: play.track.name,
+    artistName: play.track.artists[0]?.name || '',
+    albumName: play.track.albumName,
+    playedAt,
+    timestamp: playedAt,
+    // Recently played doesn't say how long a track played; Spotify only
+    // lists plays past its own threshold, so count it as played through
+    msPlayed: play.track.durationMs ?? 0,
+    skipped: false,
+    reasonStart: null,
+    reasonEnd: null,
+    shuffle: null,
+    source: 'spotify-recently-played'
+  }
+}
+
+/**
+ * Stores the user's plays since their cursor and, when anything new was
+ * stored, rebuilds their music profile from the accumulated history.
+ */
+export async function pollUserListeningHistory(
+  db: Db,
+  spotifyApi: SpotifyWebApi,
+  user: UserDocument,
+  now: Date = new Date()
+): Promise<ListeningHistorySync> {
+  const cursor = user.listeningHistorySync?.cursor ?? null
+  const source = new SpotifyMusicSource(spotifyApi)
+  const plays = cursor === null ? await source.getRecentPlays() : await source.getPlaysSince(cursor)
+
+  // The unique index on userId + trackId + playedAt drops plays already stored
+  const { imported } = await importListeningHistory(db, user._id, plays.map(toStoredPlay), now)
+  const sync: ListeningHistorySync = {
+    cursor: plays.reduce((latest, play) => Math.max(latest, play.playedAt), cursor ?? 0) || null,
+    polledAt: now,
+    storedPlays: imported,
+    error: null
+  }
+  const update: Partial<UserDocument> = { listeningHistorySync: sync }
+
+  // Questionnaire answers are a cold-start placeholder (see
+  // pages/api/onboarding) that history replaces. Imports are stored in
+  // listeningHistory, so rebuilding adds the polled plays to them
+  if (imported > 0) {
+    const { musicProfile, totals } = await buildProfileFromHistory(db, spotifyApi, user._id)
+    if ((totals?.plays ?? 0) >= MIN_PROFILE_PLAYS) {
+      Object.assign(update, {
+        musicProfile,
+        // An imported export or scrobble history is still the bulk of the
+        // plays (and part of this rebuild); keep crediting it
+        musicProfileSource: user.musicProfileSource && IMPORTED_SOURCES.includes(user.musicProfileSource) ? user.musicProfileSource : 'listening-history'
+      })
+    }
+  }
+
+  await db.collection('users').updateOne({ _id: user._id }, { $set: withTasteTimestamp(update, now) })
+  return sync
+}
+
+/**
+ * Flags users whose Spotify account was linked since the last run, so
+ * polling selects them through an index rather than a list of every linked
+ * user. Bounded like the polling; a backlog (such as the first run on an
+ * existing deployment) drains over several runs.
+ */
+async function flagNewlyLinkedUsers(db: Db): Promise<void> {
+  const jobState = db.collection<JobStateDocument>('jobState')
+  const state = await jobState.findOne({ _id: LINKED_ACCOUNTS_CURSOR })
+  const accounts = await getSpotifyAccountsLinkedAfter(state?.cursor ?? null, LINKED_ACCOUNTS_BATCH)
+  if (accounts.length === 0) return
+
+  await db.collection('users').updateMany(
+    { _id: { $in: accounts.map(account => account.userId) } },
+    { $set: { spotifyLinked: true } }
+  )
+  await jobState.updateOne(
+    { _id: LINKED_ACCOUNTS_CURSOR },
+    { $set: { cursor: accounts[accounts.length - 1]._id } },
+    { upsert: true }
+  )
+}
+
+/**
+ * Polls recently played for Spotify users not polled within POLL_INTERVAL,
+ * least recently polled first. `batchSize` bounds the work per run like
+ * refreshCandidatePools; users left over are picked up by the next run.
+ */
+export async function pollListeningHistory(
+  db: Db,
+  { batchSize = 100, now = new Date() }: { batchSize?: number; now?: Date } = {}
+): Promise<{ polled: number; storedPlays: number; failed: number }> {
+  await flagNewlyLinkedUsers(db)
+
+  const users = await db.collection('users')
+    .find({
+      spotifyLinked: true,
+      $or: [
+        { 'listeningHistorySync.polledAt': { $exists: false } },
+        { 'listeningHistorySync.polledAt': { $lt: new Date(now.getTime() - POLL_INTERVAL) } }
+      ]
+    })
+    .sort({ 'listeningHistorySync.polledAt': 1 })
+    .limit(batchSize)
+    .toArray() as UserDocument[]
+
+  let polled = 0
+  let storedPlays = 0
+  let failed = 0
+  for (const user of users) {
+    try {
+      const spotifyApi = await getSpotifyApiForUser(user._id)
+      const sync = await pollUserListeningHistory(db, spotifyApi, user, now)
+      polled++
+      storedPlays += sync.storedPlays
+    } catch (error: any) {
+      console.error(`Error polling listening history for ${user._id}:`, error)
+      failed++
+      // Record the attempt so one failing user doesn't hold up the queue.
+      // Users whose Spotify account is gone stop being polled; linking it
+      // again flags them anew
+      await db.collection('users').updateOne(
+        { _id: user._id },
+        {
+          $set: { 'listeningHistorySync.polledAt': now, 'listeningHistorySync.error': error?.message || 'Unknown error' },
+          ...(error instanceof SpotifyNotLinkedError ? { $unset: { spotifyLinked: '' } } : {})
+        }
+      )
+    }
+  }
+
+  return { polled, storedPlays, failed }
+}
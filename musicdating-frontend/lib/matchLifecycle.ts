@@ -0,0 +1,126 @@
+import { Db, ObjectId } from 'mongodb'
+import type { MatchDocument } from './matches'
+
+export type MatchStatus =
+  | 'pending' // one user liked the other
+  | 'mutual' // both liked each other
+  | 'conversation-started'
+  | 'unmatched'
+  | 'expired'
+  | 'blocked'
+
+export interface MatchTransition {
+  from: MatchStatus | null
+  to: MatchStatus
+  at: Date
+  by: ObjectId | null // null for system transitions such as expiry
+}
+
+const TRANSITIONS: Record<MatchStatus, MatchStatus[]> = {
+  pending: ['mutual', 'expired', 'unmatched', 'blocked'],
+  mutual: ['conversation-started', 'expired', 'unmatched', 'blocked'],
+  'conversation-started': ['unmatched', 'blocked'],
+  // Unmatching is a deliberate decision, so only a block can follow it
+  unmatched: ['blocked'],
+  // Expiry only means nobody acted in time; a new like reopens the match
+  expired: ['pending', 'blocked'],
+  blocked: []
+}
+
+// How long a match may sit in a state before the expiry job closes it
+export const EXPIRY_WINDOWS: Partial<Record<MatchStatus, number>> = {
+  pending: 30 * 24 * 60 * 60 * 1000, // 30 days
+  mutual: 14 * 24 * 60 * 60 * 1000 // 14 days without a conversation
+}
+
+export class MatchTransitionError extends Error {
+  constructor(
+    public from: MatchStatus | null,
+    public to: MatchStatus,
+    message = `Cannot move match from "${from}" to "${to}"`
+  ) {
+    super(message)
+    this.name = 'MatchTransitionError'
+  }
+}
+
+export function canTransition(from: MatchStatus, to: MatchStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+export function assertTransition(from: MatchStatus, to: MatchStatus) {
+  if (!canTransition(from, to)) {
+    throw new MatchTransitionError(from, to)
+  }
+}
+
+export function isActive(status: MatchStatus): boolean {
+  return status === 'mutual' || status === 'conversation-started'
+}
+
+export function createTransition(
+  from: MatchStatus | null,
+  to: MatchStatus,
+  by: ObjectId | null,
+  at: Date = new Date()
+): MatchTransition {
+  return { from, to, at, by }
+}
+
+/**
+ * Moves a match to `to` if that is a legal next state. The update is
+ * conditioned on the status we validated against, so two concurrent
+ * requests can't both apply a transition from the same state. `set` applies
+ * extra fields in the same update, e.g. the new initiator when reopening.
+ */
+export async function transitionMatch(
+  db: Db,
+  matchId: ObjectId,
+  to: MatchStatus,
+  by: ObjectId | null,
+  set: Partial<Pick<MatchDocument, 'initiatorId' | 'superLike'>> = {}
+) {
+  const match = await db.collection<MatchDocument>('matches').findOne({ _id: matchId })
+  if (!match) {
+    throw new Error(`Match ${matchId} not found`)
+  }
+
+  assertTransition(match.status, to)
+
+  const transition = createTransition(match.status, to, by)
+  const result = await db.collection<MatchDocument>('matches').findOneAndUpdate(
+    { _id: matchId, status: match.status },
+    {
+      $set: { ...set, status: to, statusChangedAt: transition.at },
+      $push: { transitions: transition }
+    },
+    { returnDocument: 'after' }
+  )
+
+  if (!result.value) {
+    throw new MatchTransitionError(match.status, to, 'Match was updated concurrently')
+  }
+
+  return result.value
+}
+
+// Closes pending and mutual matches that sat idle past their expiry window
+export async function expireStaleMatches(db: Db, now: Date = new Date()): Promise<number> {
+  let expired = 0
+
+  for (const [status, window] of Object.entries(EXPIRY_WINDOWS)) {
+    const result = await db.collection<MatchDocument>('matches').updateMany(
+      {
+        status: status as MatchStatus,
+        statusChangedAt: { $lt: new Date(now.getTime() - window!) }
+      },
+      {
+        $set: { status: 'expired', statusChangedAt: now },
+        $push: { transitions: createTransition(status as MatchStatus, 'expired', null, now) }
+      }
+    )
+    expired += result.modifiedCount
+  }
+
+  return expired
+}
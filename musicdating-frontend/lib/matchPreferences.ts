@@ -0,0 +1,164 @@
+import { MatchPreferences, UserDocument } from '../types/user'
+
+export const DEFAULT_PREFERENCES: MatchPreferences = {
+  maxDistanceKm: 50,
+  ageRange: { min: 18, max: 99 },
+  lookingFor: []
+}
+
+const YEAR = 365.25 * 24 * 60 * 60 * 1000
+export const MIN_AGE = 18
+
+export function getPreferences(user: Pick<UserDocument, 'preferences'>): MatchPreferences {
+  return { ...DEFAULT_PREFERENCES, ...user.preferences }
+}
+
+export function getAge(birthdate: Date, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - new Date(birthdate).getTime()) / YEAR)
+}
+
+/**
+ * Filter for candidates that fit the user's preferences *and* whose own
+ * preferences accept the user. Candidates who never set a field are treated
+ * as open to anyone on that field. Distance is handled separately because it
+ * needs $geoNear.
+ */
+export function createPreferenceQuery(user: UserDocument, now: Date = new Date()) {
+  const preferences = getPreferences(user)
+  const conditions: object[] = []
+
+  if (preferences.lookingFor.length > 0) {
+    conditions.push({ gender: { $in: preferences.lookingFor } })
+  }
+
+  // Born after (now - max - 1 years) and on or before (now - min years)
+  conditions.push({
+    $or: [
+      { birthdate: { $exists: false } },
+      {
+        birthdate: {
+          $gt: new Date(now.getTime() - (preferences.ageRange.max + 1) * YEAR),
+          $lte: new Date(now.getTime() - preferences.ageRange.min * YEAR)
+        }
+      }
+    ]
+  })
+
+  if (user.gender) {
+    conditions.push({
+      $or: [
+        { 'preferences.lookingFor': { $exists: false } },
+        { 'preferences.lookingFor': { $size: 0 } },
+        { 'preferences.lookingFor': user.gender }
+      ]
+    })
+  }
+
+  if (user.birthdate) {
+    const age = getAge(user.birthdate, now)
+    conditions.push(
+      { $or: [{ 'preferences.ageRange.min': { $exists: false } }, { 'preferences.ageRange.min': { $lte: age } }] },
+      { $or: [{ 'preferences.ageRange.max': { $exists: false } }, { 'preferences.ageRange.max': { $gte: age } }] }
+    )
+  }
+
+  return { $and: conditions }
+}
+
+// Runs after $geoNear: drops candidates who are further away than *their*
+// own max distance, so the filter is mutual like the rest of the preferences
+export function createMutualDistanceStage(distanceField: string = 'distance') {
+  return {
+    $match: {
+      $expr: {
+        $lte: [
+          `$${distanceField}`,
+          { $multiply: [{ $ifNull: ['$preferences.maxDistanceKm', DEFAULT_PREFERENCES.maxDistanceKm] }, 1000] }
+        ]
+      }
+    }
+  }
+}
+
+// Coarse distances so exact locations can't be triangulated from results
+export function roundDistanceKm(meters: number): number {
+  const km = meters / 1000
+  if (km < 1) return 1
+  if (km < 10) return Math.round(km)
+  return Math.round(km / 5) * 5
+}
+
+// Validates a partial update of `current`; fields left out keep their value
+export function validatePreferences(input: any, current: MatchPreferences = DEFAULT_PREFERENCES): MatchPreferences | string {
+  const { maxDistanceKm, ageRange, lookingFor } = {
+    ...current,
+    ...input,
+    ageRange: { ...current.ageRange, ...input?.ageRange }
+  }
+
+  if (typeof maxDistanceKm !== 'number' || maxDistanceKm <= 0 || maxDistanceKm > 500) {
+    return 'maxDistanceKm must be between 0 and 500'
+  }
+  if (
+    typeof ageRange?.min !== 'number' ||
+    typeof ageRange?.max !== 'number' ||
+    ageRange.min < MIN_AGE ||
+    ageRange.max < ageRange.min
+  ) {
+    return `ageRange must have min >= ${MIN_AGE} and max >= min`
+  }
+  if (!Array.isArray(lookingFor) || lookingFor.some(value => typeof value !== 'string')) {
+    return 'lookingFor must be a list of strings'
+  }
+
+  return {
+    maxDistanceKm,
+    ageRange: { min: ageRange.min, max: ageRange.max },
+    lookingFor
+  }
+}
+
+/**
+ * Validates a PUT to /api/profile/preferences, any of { preferences,
+ * location: { longitude, latitude }, gender, birthdate }, into the fields to
+ * set on `user`.
+ */
+export function parseProfileUpdate(
+  body: any,
+  user: Pick<UserDocument, 'preferences'>,
+  now: Date = new Date()
+): Partial<UserDocument> | string {
+  const update: Partial<UserDocument> = {}
+
+  if (body.preferences !== undefined) {
+    const preferences = validatePreferences(body.preferences, getPreferences(user))
+    if (typeof preferences === 'string') return preferences
+    update.preferences = preferences
+  }
+
+  if (body.location !== undefined) {
+    const { longitude, latitude } = body.location || {}
+    if (
+      typeof longitude !== 'number' || longitude < -180 || longitude > 180 ||
+      typeof latitude !== 'number' || latitude < -90 || latitude > 90
+    ) {
+      return 'location must have a valid longitude and latitude'
+    }
+    update.location = { type: 'Point', coordinates: [longitude, latitude] }
+  }
+
+  if (body.gender !== undefined) {
+    if (typeof body.gender !== 'string' || !body.gender.trim()) return 'gender must be a string'
+    update.gender = body.gender.trim()
+  }
+
+  if (body.birthdate !== undefined) {
+    const birthdate = new Date(body.birthdate)
+    if (isNaN(birthdate.getTime())) return 'birthdate must be a date'
+    if (birthdate > now) return 'birthdate cannot be in the future'
+    if (getAge(birthdate, now) < MIN_AGE) return `You must be at least ${MIN_AGE} to use the app`
+    update.birthdate = birthdate
+  }
+
+  return update
+}
@@ -0,0 +1,119 @@
+import { Db, ObjectId } from 'mongodb'
+import {
+  MatchStatus,
+  MatchTransition,
+  MatchTransitionError,
+  createTransition,
+  transitionMatch
+} from './matchLifecycle'
+
+export interface MatchDocument {
+  _id?: ObjectId
+  users: [ObjectId, ObjectId]
+  // Sorted "<id>_<id>" so each pair can only ever have one match document
+  pairKey: string
+  initiatorId: ObjectId
+  status: MatchStatus
+  statusChangedAt: Date
+  transitions: MatchTransition[]
+  superLike: boolean
+  createdAt: Date
+}
+
+export type LikeOutcome =
+  | 'pending' // waiting on the other user: new, reopened or liked before
+  | 'matched' // this like completed a mutual match
+  | 'already-matched' // mutual or in conversation already
+  | 'closed' // unmatched or blocked, which a like can't undo
+
+export interface LikeResult {
+  outcome: LikeOutcome
+  matchId: ObjectId
+}
+
+// Tries before giving up when other requests keep changing the match
+const LIKE_ATTEMPTS = 3
+
+export function getPairKey(a: ObjectId, b: ObjectId): string {
+  return [a.toString(), b.toString()].sort().join('_')
+}
+
+/**
+ * Records a like on the pair's match document. The first like creates it as
+ * pending and a like from the other user moves it to mutual. An expired
+ * match is reopened as pending with this user as the initiator; unmatched
+ * and blocked pairs stay closed.
+ */
+export async function recordLike(
+  db: Db,
+  userId: ObjectId,
+  targetId: ObjectId,
+  superLike: boolean
+): Promise<LikeResult> {
+  for (let attempt = 1; ; attempt++) {
+    const match = await upsertPendingMatch(db, userId, targetId, superLike)
+    const matchId = match._id!
+
+    try {
+      switch (match.status) {
+        case 'pending':
+          if (match.initiatorId.equals(userId)) return { outcome: 'pending', matchId }
+          await transitionMatch(db, matchId, 'mutual', userId)
+          return { outcome: 'matched', matchId }
+        case 'expired':
+          await transitionMatch(db, matchId, 'pending', userId, { initiatorId: userId, superLike })
+          return { outcome: 'pending', matchId }
+        case 'mutual':
+        case 'conversation-started':
+          return { outcome: 'already-matched', matchId }
+        default:
+          return { outcome: 'closed', matchId }
+      }
+    } catch (error) {
+      // The match moved on between reading and updating it; decide again
+      // from its new state
+      if (!(error instanceof MatchTransitionError) || attempt >= LIKE_ATTEMPTS) throw error
+    }
+  }
+}
+
+async function upsertPendingMatch(
+  db: Db,
+  userId: ObjectId,
+  targetId: ObjectId,
+  superLike: boolean
+): Promise<MatchDocument> {
+  const pairKey = getPairKey(userId, targetId)
+  const users = [userId, targetId].sort((a, b) => a.toString().localeCompare(b.toString())) as [ObjectId, ObjectId]
+  const now = new Date()
+
+  const result = await db.collection<MatchDocument>('matches').findOneAndUpdate(
+    { pairKey },
+    {
+      $setOnInsert: {
+        users,
+        pairKey,
+        initiatorId: userId,
+        status: 'pending',
+        statusChangedAt: now,
+        transitions: [createTransition(null, 'pending', userId, now)],
+        superLike,
+        createdAt: now
+      }
+    },
+    { upsert: true, returnDocument: 'after' }
+  )
+  return result.value!
+}
+
+// The other user in each of `userId`'s mutual or ongoing matches
+export async function getMatchedUserIds(db: Db, userId: ObjectId): Promise<ObjectId[]> {
+  const matches = await db.collection<MatchDocument>('matches')
+    .find(
+      { users: userId, status: { $in: ['mutual', 'conversation-started'] } },
+      { projection: { users: 1 } }
+    )
+    .toArray()
+
+  return matches.map(match => (match.users[0].equals(userId) ? match.users[1] : match.users[0]))
+}
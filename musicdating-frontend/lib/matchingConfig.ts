@@ -0,0 +1,70 @@
+import matchingConfig from '../config/matching.json'
+import { CompositeRanker, RankingStrategy } from '../utils/compositeRanker'
+import { defaultScorerRegistry, ScorerRegistry } from '../utils/scorers'
+
+const strategies: Record<string, unknown> = matchingConfig.strategies
+
+/**
+ * Checks that `value` is an object of known scorer ids to non-negative
+ * finite weights, with at least one weight above zero. `source` names where
+ * the weights came from in the error.
+ */
+export function validateScorerWeights(
+  value: unknown,
+  source: string,
+  registry: ScorerRegistry = defaultScorerRegistry
+): Record<string, number> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${source} must be a JSON object of scorer weights`)
+  }
+
+  const entries = Object.entries(value)
+  entries.forEach(([id, weight]) => {
+    if (!registry.has(id)) {
+      const known = registry.list().map(scorer => scorer.id).join(', ')
+      throw new Error(`${source} has unknown scorer "${id}" (known: ${known})`)
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`${source} weight for "${id}" must be a non-negative number`)
+    }
+  })
+  if (!entries.some(([, weight]) => weight > 0)) {
+    throw new Error(`${source} needs at least one weight above zero`)
+  }
+
+  return value as Record<string, number>
+}
+
+// Strategy selection:
+//   MATCH_STRATEGY        name of a strategy in config/matching.json
+//   MATCH_SCORER_WEIGHTS  JSON object of scorer id -> weight, overrides the
+//                         named strategy entirely (handy for experiments)
+export function loadRankingStrategy(
+  name: string = process.env.MATCH_STRATEGY || matchingConfig.defaultStrategy,
+  weightsOverride: string | undefined = process.env.MATCH_SCORER_WEIGHTS
+): RankingStrategy {
+  if (weightsOverride) {
+    let weights: unknown
+    try {
+      weights = JSON.parse(weightsOverride)
+    } catch (error) {
+      throw new Error('MATCH_SCORER_WEIGHTS must be a JSON object of scorer weights')
+    }
+    return { name: 'custom', weights: validateScorerWeights(weights, 'MATCH_SCORER_WEIGHTS') }
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(strategies, name)) {
+    throw new Error(`Unknown matching strategy "${name}"`)
+  }
+
+  return { name, weights: validateScorerWeights(strategies[name], `Matching strategy "${name}"`) }
+}
+
+let cachedRanker: CompositeRanker | null = null
+
+export function getCompositeRanker(): CompositeRanker {
+  if (!cachedRanker) {
+    cachedRanker = new CompositeRanker(loadRankingStrategy())
+  }
+  return cachedRanker
+}
@@ -0,0 +1,30 @@
+import { EventEmitter } from 'events'
+import { MomentEvent } from '../types/moments'
+
+export type MomentChange = Exclude<MomentEvent, { type: 'snapshot' }>
+
+// In-process pub/sub for Music Moments. Subscribers only see changes made
+// by this server instance; clients on other instances catch up through the
+// snapshot sent when they reconnect, or by falling back to polling.
+// Kept on globalThis so dev-mode module reloads don't split publishers
+// and subscribers across two emitters.
+const globalWithBus = globalThis as typeof globalThis & { _momentEvents?: EventEmitter }
+const bus = globalWithBus._momentEvents ?? (globalWithBus._momentEvents = new EventEmitter())
+// One listener per open stream
+bus.setMaxListeners(0)
+
+export function publishMomentEvent(event: MomentChange) {
+  bus.emit('moment', event)
+}
+
+// Returns the unsubscribe function
+export function subscribeToMomentEvents(listener: (event: MomentChange) => void): () => void {
+  bus.on('moment', listener)
+  return () => {
+    bus.off('moment', listener)
+  }
+}
+
+export function momentSubscriberCount(): number {
+  return bus.listenerCount('moment')
+}
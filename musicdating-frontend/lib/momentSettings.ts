@@ -0,0 +1,103 @@
+import { MomentSettings, MomentVisibility, UserDocument } from '../types/user'
+
+export const DEFAULT_MOMENT_SETTINGS: MomentSettings = {
+  visibility: 'everyone',
+  incognitoUntil: null,
+  hiddenArtists: [],
+  hiddenGenres: []
+}
+
+const VISIBILITIES: MomentVisibility[] = ['everyone', 'matches', 'nobody']
+const MAX_INCOGNITO_HOURS = 7 * 24
+const MAX_HIDDEN_ENTRIES = 100
+
+export function getMomentSettings(user: Pick<UserDocument, 'momentSettings'>): MomentSettings {
+  return { ...DEFAULT_MOMENT_SETTINGS, ...user.momentSettings }
+}
+
+export function isIncognito(settings: MomentSettings, now: Date = new Date()): boolean {
+  return settings.incognitoUntil !== null && new Date(settings.incognitoUntil) > now
+}
+
+// Opted into moments: sharing with everyone and not hiding behind incognito
+export function isSharingMoments(settings: MomentSettings, now: Date = new Date()): boolean {
+  return settings.visibility === 'everyone' && !isIncognito(settings, now)
+}
+
+/**
+ * Why a track must not be shared right now, or null when it may be. Genres
+ * come from the track's artist and are only needed when genres are hidden.
+ */
+export function getSharingBlock(
+  settings: MomentSettings,
+  track: { artist: string; artistId: string },
+  genres: string[] = [],
+  now: Date = new Date()
+): 'nobody' | 'incognito' | 'hidden-artist' | 'hidden-genre' | null {
+  if (settings.visibility === 'nobody') return 'nobody'
+  if (isIncognito(settings, now)) return 'incognito'
+
+  const artistName = track.artist.toLowerCase()
+  if (settings.hiddenArtists.some(artist => artist === track.artistId || artist.toLowerCase() === artistName)) {
+    return 'hidden-artist'
+  }
+  if (genres.some(genre => settings.hiddenGenres.includes(genre.toLowerCase()))) {
+    return 'hidden-genre'
+  }
+  return null
+}
+
+function parseHiddenList(value: any, name: string, lowercase: boolean): string[] | string {
+  if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+    return `${name} must be a list of strings`
+  }
+  const entries = [...new Set(value.map((entry: string) => (lowercase ? entry.trim().toLowerCase() : entry.trim())))]
+    .filter(entry => entry.length > 0)
+  if (entries.length > MAX_HIDDEN_ENTRIES) return `${name} can have at most ${MAX_HIDDEN_ENTRIES} entries`
+  return entries
+}
+
+/**
+ * Applies a settings update on top of the current settings. `incognitoHours`
+ * starts incognito mode for that long from `now`; 0 or null ends it.
+ */
+export function validateMomentSettings(
+  current: MomentSettings,
+  input: any,
+  now: Date = new Date()
+): MomentSettings | string {
+  const settings = { ...current }
+
+  if (input.visibility !== undefined) {
+    if (!VISIBILITIES.includes(input.visibility)) {
+      return `visibility must be one of ${VISIBILITIES.join(', ')}`
+    }
+    settings.visibility = input.visibility
+  }
+
+  if (input.incognitoHours !== undefined) {
+    const hours = input.incognitoHours
+    if (hours === null || hours === 0) {
+      settings.incognitoUntil = null
+    } else if (typeof hours !== 'number' || hours < 0 || hours > MAX_INCOGNITO_HOURS) {
+      return `incognitoHours must be between 0 and ${MAX_INCOGNITO_HOURS}`
+    } else {
+      settings.incognitoUntil = new Date(now.getTime() + hours * 60 * 60 * 1000)
+    }
+  }
+
+  if (input.hiddenArtists !== undefined) {
+    // Artist IDs are case-sensitive, so only names are compared ignoring case
+    const hiddenArtists = parseHiddenList(input.hiddenArtists, 'hiddenArtists', false)
+    if (typeof hiddenArtists === 'string') return hiddenArtists
+    settings.hiddenArtists = hiddenArtists
+  }
+
+  if (input.hiddenGenres !== undefined) {
+    const hiddenGenres = parseHiddenList(input.hiddenGenres, 'hiddenGenres', true)
+    if (typeof hiddenGenres === 'string') return hiddenGenres
+    settings.hiddenGenres = hiddenGenres
+  }
+
+  return settings
+}
@@ -0,0 +1,510 @@
+import { Db, Document, ObjectId } from 'mongodb'
+import { CoListener, MusicMoment } from '../types/moments'
+import { GeoPoint, MomentVisibility, UserDocument } from '../types/user'
+import { buildTasteVector, cosineSimilarity, hasTasteSignal } from '../utils/tasteVector'
+import { createLocationQuery, getCursorPage } from './database'
+import { createPreferenceQuery, getPreferences } from './matchPreferences'
+import { getMatchedUserIds } from './matches'
+import { momentSubscriberCount, publishMomentEvent } from './momentEvents'
+import { getBlockedUserIds } from './swipes'
+
+// A moment stays in the feed this long after its track was last seen playing
+export const MOMENT_TTL = 15 * 60 * 1000 // 15 minutes
+export const MOMENT_FEED_LIMIT = 20
+// Most recent active moments within the viewer's max distance considered
+// for their feed (or a co-listener list) before the preference and
+// visibility filters and the taste ranking are applied
+const MOMENT_CANDIDATE_LIMIT = 500
+const EARTH_RADIUS_KM = 6378.1
+// Co-listeners shown on each feed entry, and listed by the who's-listening endpoint
+export const CO_LISTENER_PREVIEW = 5
+export const CO_LISTENER_LIMIT = 50
+const EXPIRY_SWEEP_INTERVAL = 60 * 1000
+
+export interface MusicMomentDocument {
+  _id?: ObjectId
+  userId: ObjectId
+  trackId: string
+  trackName: string
+  artistId?: string // missing on moments recorded before artist IDs were kept
+  artistName: string
+  albumArt: string
+  // The user's location when the track was last seen playing, so feeds can
+  // be scoped by distance before anything else is filtered
+  location?: GeoPoint
+  // Missing on moments recorded before it was kept, which were shared with everyone
+  visibility?: SharedVisibility
+  timestamp: Date // last time the track was seen playing
+  // Set once the moment has been announced as expired; cleared when the
+  // user starts playing again
+  expiredAt?: Date
+}
+
+// One entry per track shared, kept so users can review and delete what
+// others could see; expired by a TTL index on sharedAt
+export interface MomentHistoryDocument {
+  _id?: ObjectId
+  userId: ObjectId
+  trackId: string
+  trackName: string
+  artistId: string
+  artistName: string
+  albumArt: string
+  visibility: SharedVisibility
+  sharedAt: Date
+}
+
+export type SharedVisibility = Exclude<MomentVisibility, 'nobody'>
+
+export interface MomentTrack {
+  id: string
+  name: string
+  artist: string
+  artistId: string
+  albumArt: string
+}
+
+type MomentWithUser = MusicMomentDocument & { userInfo: Document }
+type LocatedViewer = UserDocument & { location: GeoPoint }
+
+interface ListenerCounts {
+  tracks: Map<string, number>
+  artists: Map<string, number>
+}
+
+// Artists are grouped by ID, or by name for moments recorded without one
+const ARTIST_KEY = { $ifNull: ['$artistId', '$artistName'] }
+const artistKey = (moment: MusicMomentDocument) => moment.artistId ?? moment.artistName
+
+// Users sharing with matches only are visible to their matches alone
+function audienceQuery(matchedIds: ObjectId[]) {
+  return {
+    $or: [
+      { 'momentSettings.visibility': { $nin: ['matches', 'nobody'] } },
+      { 'momentSettings.visibility': 'matches', _id: { $in: matchedIds } }
+    ]
+  }
+}
+
+function activeFilter(now: Date) {
+  return {
+    timestamp: { $gte: new Date(now.getTime() - MOMENT_TTL) },
+    expiredAt: { $exists: false }
+  }
+}
+
+// Moments recorded within the viewer's max distance. $geoWithin rather than
+// $near, so results can still be sorted by recency
+function nearbyFilter(viewer: LocatedViewer) {
+  const [longitude, latitude] = viewer.location.coordinates
+  const radians = getPreferences(viewer).maxDistanceKm / EARTH_RADIUS_KM
+  return { location: { $geoWithin: { $centerSphere: [[longitude, latitude], radians] } } }
+}
+
+function toCoListener(moment: MomentWithUser): CoListener {
+  return {
+    userId: moment.userId.toString(),
+    userName: moment.userInfo.name,
+    userPhoto: moment.userInfo.image
+  }
+}
+
+function formatMoment(
+  moment: MomentWithUser,
+  counts: ListenerCounts,
+  coListeners: CoListener[] = [],
+  similarity: number = 0
+): MusicMoment {
+  return {
+    id: moment._id!.toString(),
+    userId: moment.userId.toString(),
+    userName: moment.userInfo.name,
+    userPhoto: moment.userInfo.image,
+    track: {
+      id: moment.trackId,
+      name: moment.trackName,
+      artist: moment.artistName,
+      artistId: moment.artistId ?? null,
+      albumArt: moment.albumArt
+    },
+    timestamp: moment.timestamp.toISOString(),
+    listeners: counts.tracks.get(moment.trackId) ?? 1,
+    artistListeners: counts.artists.get(artistKey(moment)) ?? 1,
+    coListeners,
+    similarity
+  }
+}
+
+async function findMoments(db: Db, match: Document, limit: number): Promise<MomentWithUser[]> {
+  return db.collection<MusicMomentDocument>('musicMoments')
+    .aggregate<MomentWithUser>([
+      { $match: match },
+      { $sort: { timestamp: -1 } },
+      { $limit: limit },
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'userId',
+          foreignField: '_id',
+          pipeline: [{ $project: { name: 1, image: 1 } }],
+          as: 'userInfo'
+        }
+      },
+      { $unwind: '$userInfo' }
+    ])
+    .toArray()
+}
+
+/**
+ * The viewer's nearby active moments matching `match`, most recent first,
+ * from users findVisibleMomentUsers lets them see. Moments from `hiddenIds`
+ * are skipped.
+ */
+async function findVisibleMoments(
+  db: Db,
+  viewer: LocatedViewer,
+  match: Document,
+  { hiddenIds, matchedIds, limit }: { hiddenIds: ObjectId[]; matchedIds: ObjectId[]; limit: number },
+  now: Date
+): Promise<MomentWithUser[]> {
+  const candidates = await findMoments(
+    db,
+    { ...activeFilter(now), ...nearbyFilter(viewer), ...match, userId: { $nin: hiddenIds } },
+    MOMENT_CANDIDATE_LIMIT
+  )
+  const similarities = await findVisibleMomentUsers(db, viewer, candidates.map(moment => moment.userId), matchedIds, now)
+  return candidates.filter(moment => similarities.has(moment.userId.toString())).slice(0, limit)
+}
+
+/**
+ * Active listeners per track and per artist, limited to the given tracks and
+ * artist keys. Counts are anonymous totals, the same for every viewer and
+ * broadcast to all of them, so only moments shared with everyone count:
+ * whoever shares with their matches alone stays out of the numbers. Lists
+ * of co-listeners are filtered per viewer instead.
+ */
+async function countListeners(
+  db: Db,
+  trackIds: string[],
+  artistKeys: string[],
+  now: Date = new Date()
+): Promise<ListenerCounts> {
+  const [result] = await db.collection<MusicMomentDocument>('musicMoments')
+    .aggregate<{ tracks: { _id: string; listeners: number }[]; artists: { _id: string; listeners: number }[] }>([
+      {
+        $match: {
+          ...activeFilter(now),
+          visibility: { $ne: 'matches' },
+          $or: [{ trackId: { $in: trackIds } }, { artistId: { $in: artistKeys } }, { artistName: { $in: artistKeys } }]
+        }
+      },
+      {
+        $facet: {
+          tracks: [{ $group: { _id: '$trackId', listeners: { $sum: 1 } } }],
+          artists: [{ $group: { _id: ARTIST_KEY, listeners: { $sum: 1 } } }]
+        }
+      }
+    ])
+    .toArray()
+
+  return {
+    tracks: new Map(result.tracks.map(track => [track._id, track.listeners])),
+    artists: new Map(result.artists.map(artist => [artist._id, artist.listeners]))
+  }
+}
+
+// Sends fresh counts for tracks and artists whose listeners just changed
+async function publishListenerCounts(db: Db, moments: MusicMomentDocument[], now: Date) {
+  const trackIds = [...new Set(moments.map(moment => moment.trackId))]
+  const artistKeys = [...new Set(moments.map(artistKey))]
+  const counts = await countListeners(db, trackIds, artistKeys, now)
+
+  publishMomentEvent({
+    type: 'listeners',
+    tracks: Object.fromEntries(trackIds.map(id => [id, counts.tracks.get(id) ?? 0])),
+    artists: Object.fromEntries(artistKeys.map(key => [key, counts.artists.get(key) ?? 0]))
+  })
+}
+
+/**
+ * Which of `userIds` the viewer gets to see moments from, mapped to their
+ * taste similarity to the viewer. Applies the viewer's max distance, the
+ * same mutual preference filters as matching and each user's moment
+ * visibility, given the viewer's `matchedIds`; blocks are left to callers.
+ * Moments are a nearby feature, so viewers without a location see no one.
+ * Users without a taste vector yet rank as 0.
+ */
+export async function findVisibleMomentUsers(
+  db: Db,
+  viewer: UserDocument,
+  userIds: ObjectId[],
+  matchedIds: ObjectId[],
+  now: Date = new Date()
+): Promise<Map<string, number>> {
+  if (userIds.length === 0 || !viewer.location) return new Map()
+
+  const locationQuery = createLocationQuery(
+    viewer.location.coordinates[0],
+    viewer.location.coordinates[1],
+    getPreferences(viewer).maxDistanceKm * 1000
+  )
+  const users = await db.collection('users')
+    .find(
+      { ...locationQuery, ...createPreferenceQuery(viewer, now), ...audienceQuery(matchedIds), _id: { $in: userIds } },
+      { projection: { tasteVector: 1 } }
+    )
+    .toArray() as Pick<UserDocument, '_id' | 'tasteVector'>[]
+
+  const vector = viewer.tasteVector || buildTasteVector(viewer)
+  return new Map(users.map(user => [
+    user._id.toString(),
+    hasTasteSignal(vector) && user.tasteVector?.length === vector.length ? cosineSimilarity(vector, user.tasteVector) : 0
+  ]))
+}
+
+/**
+ * Active moments from users near the viewer who fit their preferences,
+ * most similar taste first and most recent among equals, with listener
+ * counts and a preview of who else nearby is on the same track. Empty for
+ * viewers without a location.
+ */
+export async function getRecentMoments(db: Db, viewer: UserDocument, now: Date = new Date()): Promise<MusicMoment[]> {
+  if (!viewer.location) return []
+  const located = viewer as LocatedViewer
+
+  const [blockedIds, matchedIds] = await Promise.all([
+    getBlockedUserIds(db, viewer._id),
+    getMatchedUserIds(db, viewer._id)
+  ])
+  const hiddenIds = [viewer._id, ...blockedIds]
+  const candidates = await db.collection<MusicMomentDocument>('musicMoments')
+    .find(
+      { ...activeFilter(now), ...nearbyFilter(located), userId: { $nin: hiddenIds } },
+      { projection: { userId: 1, timestamp: 1 } }
+    )
+    .sort({ timestamp: -1 })
+    .limit(MOMENT_CANDIDATE_LIMIT)
+    .toArray()
+
+  const similarities = await findVisibleMomentUsers(db, viewer, candidates.map(moment => moment.userId), matchedIds, now)
+  const similarity = (moment: MusicMomentDocument) => similarities.get(moment.userId.toString())!
+  const rank = new Map(candidates
+    .filter(moment => similarities.has(moment.userId.toString()))
+    .sort((a, b) => similarity(b) - similarity(a) || b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, MOMENT_FEED_LIMIT)
+    .map((moment, index) => [moment._id!.toString(), index]))
+  if (rank.size === 0) return []
+
+  const moments = (await findMoments(db, { _id: { $in: [...rank.keys()].map(id => new ObjectId(id)) } }, MOMENT_FEED_LIMIT))
+    .sort((a, b) => rank.get(a._id!.toString())! - rank.get(b._id!.toString())!)
+
+  const trackIds = [...new Set(moments.map(moment => moment.trackId))]
+  const [counts, sameTrack] = await Promise.all([
+    countListeners(db, trackIds, [...new Set(moments.map(artistKey))], now),
+    findVisibleMoments(db, located, { trackId: { $in: trackIds } }, { hiddenIds, matchedIds, limit: MOMENT_CANDIDATE_LIMIT }, now)
+  ])
+
+  return moments.map(moment => formatMoment(
+    moment,
+    counts,
+    sameTrack
+      .filter(other => other.trackId === moment.trackId && !other.userId.equals(moment.userId))
+      .slice(0, CO_LISTENER_PREVIEW)
+      .map(toCoListener),
+    similarity(moment)
+  ))
+}
+
+/**
+ * Who is playing a track (or anything by an artist) right now, as far as
+ * the viewer may see: the same nearby users findVisibleMomentUsers allows
+ * in their feed, without their own moment or users on either side of a
+ * block. `listeners` is the anonymous total from countListeners.
+ */
+export async function getCoListeners(
+  db: Db,
+  viewer: UserDocument,
+  { trackId, artistId }: { trackId?: string; artistId?: string },
+  now: Date = new Date()
+): Promise<{ listeners: number; coListeners: CoListener[] }> {
+  const [blockedIds, matchedIds] = await Promise.all([
+    getBlockedUserIds(db, viewer._id),
+    getMatchedUserIds(db, viewer._id)
+  ])
+  const hiddenIds = [viewer._id, ...blockedIds]
+  // Artist keys fall back to names for moments without an artist ID
+  const match = trackId ? { trackId } : { $or: [{ artistId }, { artistId: { $exists: false }, artistName: artistId }] }
+
+  const [counts, visible] = await Promise.all([
+    countListeners(db, trackId ? [trackId] : [], artistId ? [artistId] : [], now),
+    viewer.location
+      ? findVisibleMoments(db, viewer as LocatedViewer, match, { hiddenIds, matchedIds, limit: CO_LISTENER_LIMIT }, now)
+      : null
+  ])
+
+  return {
+    listeners: (trackId ? counts.tracks.get(trackId) : counts.artists.get(artistId!)) ?? 0,
+    coListeners: visible?.map(toCoListener) ?? []
+  }
+}
+
+export async function findActiveMoment(
+  db: Db,
+  momentId: ObjectId,
+  now: Date = new Date()
+): Promise<MusicMomentDocument | null> {
+  return db.collection<MusicMomentDocument>('musicMoments').findOne({ _id: momentId, ...activeFilter(now) })
+}
+
+/**
+ * Records what the user is playing and tells subscribers when their moment
+ * appeared or moved to another track, along with the listener counts that
+ * changed, adding the track to the user's share history. Seeing the same
+ * track again only keeps the moment alive, which isn't announced. Callers
+ * check the user's moment settings first (lib/momentSettings).
+ */
+export async function updateMoment(
+  db: Db,
+  user: Pick<UserDocument, '_id' | 'location'>,
+  track: MomentTrack,
+  visibility: SharedVisibility,
+  now: Date = new Date()
+): Promise<void> {
+  const userId = user._id
+  const result = await db.collection<MusicMomentDocument>('musicMoments').findOneAndUpdate(
+    { userId },
+    {
+      $set: {
+        trackId: track.id,
+        trackName: track.name,
+        artistId: track.artistId,
+        artistName: track.artist,
+        albumArt: track.albumArt,
+        visibility,
+        timestamp: now,
+        ...(user.location ? { location: user.location } : {})
+      },
+      // Without a location the moment falls outside every feed
+      $unset: { expiredAt: '', ...(user.location ? {} : { location: '' }) }
+    },
+    { upsert: true, returnDocument: 'before' }
+  )
+
+  const previous = result.value
+  const isNew = !previous || previous.expiredAt || previous.timestamp.getTime() < now.getTime() - MOMENT_TTL
+  if (!isNew && previous.trackId === track.id) return
+
+  await db.collection<MomentHistoryDocument>('momentHistory').insertOne({
+    userId,
+    trackId: track.id,
+    trackName: track.name,
+    artistId: track.artistId,
+    artistName: track.artist,
+    albumArt: track.albumArt,
+    visibility,
+    sharedAt: now
+  })
+
+  const [moment] = await findMoments(db, { userId }, 1)
+  if (!moment) return
+
+  const counts = await countListeners(db, [moment.trackId], [artistKey(moment)], now)
+  publishMomentEvent({ type: isNew ? 'added' : 'changed', moment: formatMoment(moment, counts) })
+  await publishListenerCounts(db, isNew ? [moment] : [moment, previous], now)
+}
+
+// The user stopped playing: take their moment out of the feed right away
+export async function endMoment(db: Db, userId: ObjectId, now: Date = new Date()): Promise<void> {
+  const result = await db.collection<MusicMomentDocument>('musicMoments').findOneAndUpdate(
+    { userId, ...activeFilter(now) },
+    { $set: { expiredAt: now } }
+  )
+  if (!result.value) return
+
+  publishMomentEvent({ type: 'expired', momentId: result.value._id!.toString(), userId: userId.toString() })
+  await publishListenerCounts(db, [result.value], now)
+}
+
+// The user's share history, most recent first
+export async function getMomentHistory(
+  db: Db,
+  userId: ObjectId,
+  { cursor, limit }: { cursor?: ObjectId; limit: number }
+) {
+  const entries = await db.collection<MomentHistoryDocument>('momentHistory')
+    .find({ userId, ...(cursor ? { _id: { $lt: cursor } } : {}) })
+    .sort({ _id: -1 })
+    .limit(limit + 1)
+    .toArray() as (MomentHistoryDocument & { _id: ObjectId })[]
+
+  return getCursorPage(entries, limit)
+}
+
+/**
+ * Deletes one history entry, or the whole history without `entryId`. When
+ * the live moment is a deleted share it comes down too, since deleting it
+ * is the user asking for it not to be seen. Returns how many were deleted.
+ */
+export async function deleteMomentHistory(
+  db: Db,
+  userId: ObjectId,
+  entryId?: ObjectId,
+  now: Date = new Date()
+): Promise<number> {
+  const history = db.collection<MomentHistoryDocument>('momentHistory')
+
+  if (!entryId) {
+    const result = await history.deleteMany({ userId })
+    await endMoment(db, userId, now)
+    return result.deletedCount
+  }
+
+  const result = await history.findOneAndDelete({ _id: entryId, userId })
+  if (!result.value) return 0
+
+  const live = await db.collection<MusicMomentDocument>('musicMoments').findOne({ userId, ...activeFilter(now) })
+  if (live?.trackId === result.value.trackId) await endMoment(db, userId, now)
+  return 1
+}
+
+/**
+ * Marks moments that outlived MOMENT_TTL as expired and announces them,
+ * with the listener counts that dropped. Returns how many expired.
+ */
+export async function expireMoments(db: Db, now: Date = new Date()): Promise<number> {
+  const collection = db.collection<MusicMomentDocument>('musicMoments')
+  const stale = { expiredAt: { $exists: false }, timestamp: { $lt: new Date(now.getTime() - MOMENT_TTL) } }
+  const candidates = await collection.find(stale, { projection: { _id: 1 } }).toArray()
+
+  const expired: MusicMomentDocument[] = []
+  for (const { _id } of candidates) {
+    // Matching on staleness again skips users who started playing since the find
+    const result = await collection.findOneAndUpdate({ _id, ...stale }, { $set: { expiredAt: now } })
+    if (!result.value) continue
+    publishMomentEvent({ type: 'expired', momentId: _id!.toString(), userId: result.value.userId.toString() })
+    expired.push(result.value)
+  }
+
+  if (expired.length > 0) await publishListenerCounts(db, expired, now)
+  return expired.length
+}
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Expired events need something to notice the expiry, so while any stream
+ * is open this instance sweeps for stale moments every minute. The timer
+ * stops itself once the last subscriber is gone.
+ */
+export function ensureExpirySweep(db: Db) {
+  if (sweepTimer) return
+
+  sweepTimer = setInterval(() => {
+    if (momentSubscriberCount() === 0) {
+      clearInterval(sweepTimer!)
+      sweepTimer = null
+      return
+    }
+    expireMoments(db).catch(error => console.error('Error expiring music moments:', error))
+  }, EXPIRY_SWEEP_INTERVAL)
+}
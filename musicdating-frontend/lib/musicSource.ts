@@ -0,0 +1,44 @@
+// Provider-neutral shapes for listening data. Spotify is one implementation
+// (lib/spotifySource.ts); scrobble exports are another (lib/scrobbleSource.ts).
+
+export type MusicSourceId = 'spotify' | 'scrobbles'
+
+export interface SourceArtist {
+  // Spotify ID when the source knows it, otherwise a source-prefixed ID
+  // such as "mbid:<MusicBrainz ID>" or "name:<normalized name>"
+  id: string
+  name: string
+  genres: string[] // empty when the source has no genre data
+}
+
+export interface SourceTrack {
+  id: string // same scheme as SourceArtist.id
+  name: string
+  artists: SourceArtist[]
+  albumName: string | null
+  durationMs: number | null
+}
+
+export interface SourcePlay {
+  track: SourceTrack
+  playedAt: number // epoch milliseconds
+}
+
+export interface SourcePlaylist {
+  id: string
+  name: string
+  trackCount: number
+}
+
+export interface MusicSource {
+  readonly id: MusicSourceId
+  getRecentPlays(limit?: number): Promise<SourcePlay[]> // most recent first
+  getTopArtists(limit?: number): Promise<SourceArtist[]> // most listened first
+  getPlaylists(): Promise<SourcePlaylist[]>
+  getPlaylistTracks(playlistId: string): Promise<SourceTrack[]>
+  getTracks(trackIds: string[]): Promise<SourceTrack[]>
+}
+
+export function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
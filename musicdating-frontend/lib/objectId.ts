@@ -0,0 +1,8 @@
+import { ObjectId } from 'mongodb'
+
+// ObjectId.isValid also accepts any 12 character string, so check for hex.
+// Lives outside lib/database so modules that must load without MONGODB_DB
+// (e.g. the NextAuth route) can use it.
+export function toObjectId(id: unknown): ObjectId | null {
+  return typeof id === 'string' && /^[0-9a-f]{24}$/i.test(id) ? new ObjectId(id) : null
+}
@@ -0,0 +1,28 @@
+import SpotifyWebApi from 'spotify-web-api-node'
+import type { Db } from 'mongodb'
+import { SpotifyMusicSource } from './spotifySource'
+import { getCachedArtists, getCachedAudioFeatures } from './spotifyCache'
+import { buildPlaylistProfile, PlaylistProfile, TrackFeatures } from '../utils/playlistAnalyzer'
+
+// Loads a playlist's tracks, audio features and artist genres (cached, only
+// misses hit Spotify) and profiles it with utils/playlistAnalyzer
+export async function analyzePlaylist(
+  db: Db,
+  spotifyApi: SpotifyWebApi,
+  playlistId: string
+): Promise<PlaylistProfile> {
+  const tracks = await new SpotifyMusicSource(spotifyApi).getPlaylistTracks(playlistId)
+  const trackIds = tracks.map(track => track.id)
+
+  const features = await getCachedAudioFeatures(db, spotifyApi, trackIds)
+  const audioFeatures: TrackFeatures[] = trackIds
+    .map(id => features.get(id))
+    .filter((track): track is SpotifyApi.AudioFeaturesObject => Boolean(track))
+    .map(track => ({ ...track, genres: [] }))
+
+  // Genres of every credited artist, not just the first
+  const artists = await getCachedArtists(db, spotifyApi, tracks.flatMap(track => track.artists.map(artist => artist.id)))
+  const trackGenres = tracks.map(track => track.artists.flatMap(artist => artists.get(artist.id)?.genres || []))
+
+  return buildPlaylistProfile(trackGenres, audioFeatures)
+}
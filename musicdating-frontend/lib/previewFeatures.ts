@@ -0,0 +1,74 @@
+import SpotifyWebApi from 'spotify-web-api-node'
+import { spotifyGateway } from './spotifyGateway'
+import { decodeAudio } from './audioDecoder'
+import { extractAudioFeatures } from '../utils/audioFeatureExtractor'
+
+// Largest batch GET /v1/tracks accepts
+const TRACKS_BATCH = 50
+// Previews are ~30 seconds of 128 kbps MP3, well under a megabyte
+const PREVIEW_TIMEOUT = 10 * 1000
+
+// Answers that say the preview is gone rather than temporarily unavailable
+const PREVIEW_GONE = [403, 404, 410]
+
+/**
+ * Features of one track's preview. Null when the track has no usable
+ * preview, undefined when the download failed in a way worth retrying.
+ */
+async function analyzePreview(track: SpotifyApi.TrackObjectFull): Promise<SpotifyApi.AudioFeaturesObject | null | undefined> {
+  if (!track.preview_url) return null
+
+  let bytes: Uint8Array
+  try {
+    const response = await fetch(track.preview_url, { signal: AbortSignal.timeout(PREVIEW_TIMEOUT) })
+    if (!response.ok) {
+      console.error(`Preview download for track ${track.id} failed with ${response.status}`)
+      return PREVIEW_GONE.includes(response.status) ? null : undefined
+    }
+    bytes = new Uint8Array(await response.arrayBuffer())
+  } catch (error) {
+    console.error(`Error downloading the preview of track ${track.id}:`, error)
+    return undefined
+  }
+
+  try {
+    return {
+      ...extractAudioFeatures(await decodeAudio(bytes), track.id),
+      // The preview is a 30 second clip; report the whole track like Spotify does
+      duration_ms: track.duration_ms,
+      type: 'audio_features',
+      uri: track.uri,
+      track_href: track.href,
+      analysis_url: ''
+    }
+  } catch (error) {
+    // The same bytes would fail the same way next time
+    console.error(`Error extracting audio features for track ${track.id}:`, error)
+    return null
+  }
+}
+
+/**
+ * Estimates audio features by downloading and analyzing each track's preview,
+ * for when Spotify's audio-features endpoint is unavailable. Results are
+ * positional like the endpoint's: null for tracks without a usable preview,
+ * undefined for ones whose download failed and should be tried again.
+ * Previews are decoded one at a time to bound memory use; callers bound how
+ * many they ask for (see PREVIEWS_PER_CALL in lib/spotifyCache).
+ */
+export async function extractPreviewFeatures(
+  spotifyApi: SpotifyWebApi,
+  trackIds: string[]
+): Promise<(SpotifyApi.AudioFeaturesObject | null | undefined)[]> {
+  const results: (SpotifyApi.AudioFeaturesObject | null | undefined)[] = []
+
+  for (let start = 0; start < trackIds.length; start += TRACKS_BATCH) {
+    const batch = trackIds.slice(start, start + TRACKS_BATCH)
+    const { tracks } = await spotifyGateway.call('getTracks', () => spotifyApi.getTracks(batch))
+    for (const track of tracks) {
+      results.push(track ? await analyzePreview(track) : null)
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,193 @@
+import { Db } from 'mongodb'
+
+export interface RateLimit {
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  resetAt: Date
+}
+
+interface RateLimitDocument {
+  _id: string // "<key>:<window start>"
+  count: number
+  expiresAt: Date
+}
+
+/**
+ * Counts one action against `key` in a fixed window. Counters live in Mongo
+ * so the limit holds across serverless instances, and the TTL index on
+ * expiresAt cleans them up. Denied attempts count too, so hammering the
+ * endpoint doesn't help.
+ */
+export async function consumeRateLimit(
+  db: Db,
+  key: string,
+  { limit, windowMs }: RateLimit,
+  now: Date = new Date()
+): Promise<RateLimitResult> {
+  const windowStart = Math.floor(now.getTime() / windowMs) * windowMs
+  const resetAt = new Date(windowStart + windowMs)
+
+  const result = await db.collection<RateLimitDocument>('rateLimits').findOneAndUpdate(
+    { _id: `${key}:${windowStart}` },
+    { $inc: { count: 1 }, $setOnInsert: { expiresAt: resetAt } },
+    { upsert: true, returnDocument: 'after' }
+  )
+  const count = result.value!.count
+
+  return { allowed: count <= limit, remaining: Math.max(0, limit - count), resetAt }
+}
+
+export interface TokenBucketOptions {
+  capacity: number
+  refillPerSecond: number
+}
+
+// Token buckets meter a steady rate with bursts, e.g. calls to an external
+// API on behalf of the whole app
+export interface TokenBucket {
+  // Reserves a token and resolves with how long to wait before using it
+  take(): Promise<number>
+  // Holds every caller back until `until` (epoch milliseconds)
+  pause(until: number): Promise<void>
+  available(): Promise<number>
+}
+
+// Bucket local to this process
+export class MemoryTokenBucket implements TokenBucket {
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+
+  constructor(private options: TokenBucketOptions) {
+    this.tokens = options.capacity
+  }
+
+  async take(): Promise<number> {
+    this.refill()
+    // Reserve the token straight away so concurrent callers queue up behind
+    // each other instead of all waking at the same moment
+    this.tokens -= 1
+    const now = Date.now()
+    const bucketWait = this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / this.options.refillPerSecond) * 1000)
+    return Math.max(this.pausedUntil - now, bucketWait)
+  }
+
+  async pause(until: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, until)
+  }
+
+  async available(): Promise<number> {
+    this.refill()
+    return this.tokens
+  }
+
+  private refill() {
+    const now = Date.now()
+    this.tokens = Math.min(
+      this.options.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.options.refillPerSecond
+    )
+    this.lastRefill = now
+  }
+}
+
+interface TokenBucketDocument {
+  _id: string // "token-bucket:<key>"
+  tokens: number
+  refilledAt: number // epoch milliseconds
+  pausedUntil: number
+  expiresAt: Date
+}
+
+// A bucket left alone this long is full again, so its document can go
+const BUCKET_IDLE_TTL = 60 * 60 * 1000 // 1 hour
+
+/**
+ * Bucket shared by every server instance, kept in one `rateLimits` document
+ * that is refilled and drawn from in a single atomic update. `getDb` is
+ * called lazily so creating the bucket doesn't connect. While Mongo can't be
+ * reached, a local bucket keeps callers going.
+ */
+export class SharedTokenBucket implements TokenBucket {
+  private fallback: MemoryTokenBucket
+
+  constructor(
+    private key: string,
+    private options: TokenBucketOptions,
+    private getDb: () => Promise<Db>
+  ) {
+    this.fallback = new MemoryTokenBucket(options)
+  }
+
+  async take(): Promise<number> {
+    const { capacity, refillPerSecond } = this.options
+    const now = Date.now()
+
+    try {
+      const result = await (await this.getDb()).collection<TokenBucketDocument>('rateLimits').findOneAndUpdate(
+        { _id: this.id },
+        [
+          {
+            $set: {
+              tokens: {
+                $min: [
+                  capacity,
+                  {
+                    $add: [
+                      { $ifNull: ['$tokens', capacity] },
+                      { $multiply: [{ $divide: [{ $subtract: [now, { $ifNull: ['$refilledAt', now] }] }, 1000] }, refillPerSecond] }
+                    ]
+                  }
+                ]
+              },
+              refilledAt: now,
+              pausedUntil: { $ifNull: ['$pausedUntil', 0] },
+              expiresAt: new Date(now + BUCKET_IDLE_TTL)
+            }
+          },
+          { $set: { tokens: { $subtract: ['$tokens', 1] } } }
+        ],
+        { upsert: true, returnDocument: 'after' }
+      )
+      const bucket = result.value!
+      const bucketWait = bucket.tokens >= 0 ? 0 : Math.ceil((-bucket.tokens / refillPerSecond) * 1000)
+      return Math.max(bucket.pausedUntil - now, bucketWait)
+    } catch (error) {
+      console.warn(`Shared token bucket "${this.key}" unavailable, using a local one`, error)
+      return this.fallback.take()
+    }
+  }
+
+  async pause(until: number) {
+    await this.fallback.pause(until)
+    try {
+      await (await this.getDb()).collection<TokenBucketDocument>('rateLimits').updateOne(
+        { _id: this.id },
+        { $max: { pausedUntil: until } }
+      )
+    } catch (error) {
+      console.warn(`Could not pause shared token bucket "${this.key}"`, error)
+    }
+  }
+
+  async available(): Promise<number> {
+    try {
+      const bucket = await (await this.getDb()).collection<TokenBucketDocument>('rateLimits').findOne({ _id: this.id })
+      if (!bucket) return this.options.capacity
+      const refilled = ((Date.now() - bucket.refilledAt) / 1000) * this.options.refillPerSecond
+      return Math.min(this.options.capacity, bucket.tokens + refilled)
+    } catch (error) {
+      console.warn(`Shared token bucket "${this.key}" unavailable, reading the local one`, error)
+      return this.fallback.available()
+    }
+  }
+
+  private get id(): string {
+    return `token-bucket:${this.key}`
+  }
+}
@@ -0,0 +1,217 @@
+import { ImportedPlay } from './listeningHistoryImport'
+import { SourceArtist, SourcePlay, SourceTrack, normalizeName } from './musicSource'
+import { ListeningHistoryMatcher } from '../utils/listeningHistoryMatcher'
+
+export type ScrobbleFormat = 'listenbrainz' | 'lastfm'
+
+// ListenBrainz export entry (JSON array or one listen per line)
+interface ListenBrainzListen {
+  listened_at: number // unix seconds
+  track_metadata: {
+    artist_name: string
+    track_name: string
+    release_name?: string
+    additional_info?: {
+      duration_ms?: number
+      spotify_id?: string // https://open.spotify.com/track/<id>
+      spotify_artist_ids?: string[]
+      recording_mbid?: string
+      artist_mbids?: string[]
+    }
+    mbid_mapping?: {
+      recording_mbid?: string
+      artist_mbids?: string[]
+    }
+  }
+}
+
+const SPOTIFY_URL_ID = /open\.spotify\.com\/(?:track|artist)\/([0-9A-Za-z]{22})/
+
+// Prefer IDs other sources share: Spotify IDs (ListenBrainz keeps them when
+// the listen came from Spotify), then MusicBrainz IDs, then names
+function artistId(name: string, spotifyUrl?: string, mbid?: string): string {
+  const spotifyId = spotifyUrl?.match(SPOTIFY_URL_ID)?.[1]
+  if (spotifyId) return spotifyId
+  return mbid ? `mbid:${mbid}` : `name:${normalizeName(name)}`
+}
+
+function trackId(artist: string, track: string, spotifyUrl?: string, mbid?: string): string {
+  const spotifyId = spotifyUrl?.match(SPOTIFY_URL_ID)?.[1]
+  if (spotifyId) return spotifyId
+  return mbid ? `mbid:${mbid}` : `name:${normalizeName(artist)}|${normalizeName(track)}`
+}
+
+export function detectScrobbleFormat(content: string): ScrobbleFormat {
+  return /^\s*[[{]/.test(content) ? 'listenbrainz' : 'lastfm'
+}
+
+function parseListenBrainz(content: string): SourcePlay[] | string {
+  let listens: ListenBrainzListen[]
+  try {
+    const trimmed = content.trim()
+    listens = trimmed.startsWith('[')
+      ? JSON.parse(trimmed)
+      : trimmed.split('\n').filter(Boolean).map(line => JSON.parse(line))
+  } catch (error) {
+    return 'ListenBrainz exports must be a JSON array or one JSON listen per line'
+  }
+
+  return listens.flatMap(listen => {
+    const metadata = listen?.track_metadata
+    if (!metadata?.artist_name || !metadata.track_name || typeof listen.listened_at !== 'number') return []
+
+    const info = metadata.additional_info || {}
+    const mapping = metadata.mbid_mapping || {}
+    const artistMbids = mapping.artist_mbids || info.artist_mbids || []
+    const artist: SourceArtist = {
+      id: artistId(metadata.artist_name, info.spotify_artist_ids?.[0], artistMbids[0]),
+      name: metadata.artist_name,
+      genres: []
+    }
+
+    return [{
+      track: {
+        id: trackId(metadata.artist_name, metadata.track_name, info.spotify_id, mapping.recording_mbid || info.recording_mbid),
+        name: metadata.track_name,
+        artists: [artist],
+        albumName: metadata.release_name ?? null,
+        durationMs: info.duration_ms ?? null
+      },
+      playedAt: listen.listened_at * 1000
+    }]
+  })
+}
+
+// Splits one CSV line, honouring double-quoted fields
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  fields.push(field)
+  return fields
+}
+
+/**
+ * Last.fm has no official export; this reads the CSVs of the common export
+ * tools. With a header row, columns are found by name (uts or utc_time,
+ * artist, album, track and optional *_mbid). Without one, columns are
+ * artist, album, track, date.
+ */
+function parseLastFm(content: string): SourcePlay[] | string {
+  const lines = content.split(/\r?\n/).filter(line => line.trim())
+  if (lines.length === 0) return 'The Last.fm export is empty'
+
+  const header = parseCsvLine(lines[0]).map(column => column.trim().toLowerCase())
+  const hasHeader = header.includes('artist') && header.includes('track')
+  const column = (name: string, fallback: number) => (hasHeader ? header.indexOf(name) : fallback)
+  const columns = {
+    uts: column('uts', -1),
+    date: column(hasHeader ? 'utc_time' : 'date', 3),
+    artist: column('artist', 0),
+    artistMbid: column('artist_mbid', -1),
+    album: column('album', 1),
+    track: column('track', 2),
+    trackMbid: column('track_mbid', -1)
+  }
+
+  return (hasHeader ? lines.slice(1) : lines).flatMap(line => {
+    const fields = parseCsvLine(line)
+    const get = (index: number) => (index >= 0 ? fields[index]?.trim() || undefined : undefined)
+    const artistName = get(columns.artist)
+    const trackName = get(columns.track)
+    const uts = Number(get(columns.uts))
+    // Exports without uts write UTC times without a zone, e.g. "31 Jan 2021 12:34"
+    const playedAt = uts > 0 ? uts * 1000 : Date.parse(`${get(columns.date)} UTC`)
+    if (!artistName || !trackName || Number.isNaN(playedAt)) return []
+
+    return [{
+      track: {
+        id: trackId(artistName, trackName, undefined, get(columns.trackMbid)),
+        name: trackName,
+        artists: [{ id: artistId(artistName, undefined, get(columns.artistMbid)), name: artistName, genres: [] }],
+        albumName: get(columns.album) ?? null,
+        durationMs: null
+      },
+      playedAt
+    }]
+  })
+}
+
+export function parseScrobbles(content: string, format: ScrobbleFormat = detectScrobbleFormat(content)): SourcePlay[] | string {
+  const plays = format === 'listenbrainz' ? parseListenBrainz(content) : parseLastFm(content)
+  if (typeof plays === 'string') return plays
+  return plays.length > 0 ? plays : 'No scrobbles found in the file'
+}
+
+// Spotify IDs beat MusicBrainz IDs, which beat name-based IDs
+const idRank = (id: string) => (id.startsWith('name:') ? 0 : id.startsWith('mbid:') ? 1 : 2)
+
+// Only some listens of an artist or track may carry IDs (e.g. the ones
+// scrobbled from Spotify), so give every listen the best ID seen for its name
+function canonicalizeIds(plays: SourcePlay[]): SourcePlay[] {
+  const artistIds = new Map<string, string>()
+  const trackIds = new Map<string, string>()
+  const keep = (ids: Map<string, string>, key: string, id: string) => {
+    const current = ids.get(key)
+    if (!current || idRank(id) > idRank(current)) ids.set(key, id)
+  }
+  const trackKey = (track: SourceTrack) =>
+    `${normalizeName(track.artists[0]?.name || '')}|${normalizeName(track.name)}`
+
+  plays.forEach(play => {
+    keep(trackIds, trackKey(play.track), play.track.id)
+    play.track.artists.forEach(artist => keep(artistIds, normalizeName(artist.name), artist.id))
+  })
+
+  return plays.map(play => ({
+    ...play,
+    track: {
+      ...play.track,
+      id: trackIds.get(trackKey(play.track))!,
+      artists: play.track.artists.map(artist => ({ ...artist, id: artistIds.get(normalizeName(artist.name))! }))
+    }
+  }))
+}
+
+/**
+ * Turns scrobbles into plays for the listeningHistory collection. Scrobblers
+ * only submit a listen once half the track (or four minutes) has played, so
+ * every scrobble counts as a play past the matcher's threshold.
+ */
+export function toImportedPlays(plays: SourcePlay[]): ImportedPlay[] {
+  return canonicalizeIds(plays).map(play => ({
+    trackId: play.track.id,
+    trackName: play.track.name,
+    artistName: play.track.artists[0].name,
+    albumName: play.track.albumName,
+    playedAt: new Date(play.playedAt),
+    msPlayed: Math.max(play.track.durationMs ?? 0, ListeningHistoryMatcher.LISTENING_THRESHOLD * 1000),
+    skipped: false,
+    reasonStart: null,
+    reasonEnd: null,
+    shuffle: null,
+    source: 'scrobbles'
+  }))
+}
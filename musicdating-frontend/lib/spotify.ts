@@ -1,5 +1,7 @@
 import SpotifyWebApi from 'spotify-web-api-node'
-import { Session } from 'next-auth'
+import type { Db } from 'mongodb'
+import { spotifyGateway } from './spotifyGateway'
+import { getCachedAudioFeatures } from './spotifyCache'
 
 const scopes = [
   'user-read-currently-playing',
@@ -11,53 +13,41 @@ const scopes = [
   'user-read-private'
 ]
 
-export const spotifyApi = new SpotifyWebApi({
-  clientId: process.env.SPOTIFY_CLIENT_ID,
-  clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
-})
-
-export const LOGIN_URL = spotifyApi.createAuthorizeURL(scopes, '')
-
-export const getSpotifyApi = async (session: Session) => {
-  if (session.accessToken) {
-    spotifyApi.setAccessToken(session.accessToken)
-  }
-  
-  // Check if token needs refresh
-  const now = Date.now()
-  if (session.expires && now > session.expires && session.accessToken) {
-    const data = await spotifyApi.refreshAccessToken()
-    spotifyApi.setAccessToken(data.body.access_token)
-    
-    // Update session token (implement this in your session handling)
-    // await updateSession({
-    //   accessToken: data.body.access_token,
-    //   expires: Date.now() + data.body.expires_in * 1000
-    // })
+// Every caller gets its own client. spotify-web-api-node keeps the access
+// token on the instance, so a shared client would let concurrent requests
+// from different users run with each other's tokens.
+export const createSpotifyClient = (accessToken?: string) => {
+  const client = new SpotifyWebApi({
+    clientId: process.env.SPOTIFY_CLIENT_ID,
+    clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+  })
+  if (accessToken) {
+    client.setAccessToken(accessToken)
   }
-  
-  return spotifyApi
+  return client
 }
 
+export const LOGIN_URL = createSpotifyClient().createAuthorizeURL(scopes, '')
+
 // Utility functions for track matching
-export const getTrackFeatures = async (trackId: string) => {
-  const features = await spotifyApi.getAudioFeaturesForTrack(trackId)
-  return features.body
+export const getTrackFeatures = async (db: Db, spotifyApi: SpotifyWebApi, trackId: string) => {
+  const features = await getCachedAudioFeatures(db, spotifyApi, [trackId])
+  return features.get(trackId) ?? null
 }
 
-export const findSimilarTracks = async (trackId: string) => {
-  const features = await getTrackFeatures(trackId)
+export const findSimilarTracks = async (db: Db, spotifyApi: SpotifyWebApi, trackId: string) => {
+  const features = await getTrackFeatures(db, spotifyApi, trackId)
   
   // Get recommendations based on track
-  const recommendations = await spotifyApi.getRecommendations({
+  const recommendations = await spotifyGateway.call('getRecommendations', () => spotifyApi.getRecommendations({
     seed_tracks: [trackId],
-    target_danceability: features.danceability,
-    target_energy: features.energy,
-    target_valence: features.valence,
+    target_danceability: features?.danceability,
+    target_energy: features?.energy,
+    target_valence: features?.valence,
     limit: 10
-  })
+  }))
   
-  return recommendations.body.tracks
+  return recommendations.tracks
 }
 
 // Real-time playback sync
@@ -74,19 +64,19 @@ export interface PlaybackState {
   timestamp: number
 }
 
-export const getCurrentPlayback = async (): Promise<PlaybackState | null> => {
+export const getCurrentPlayback = async (spotifyApi: SpotifyWebApi): Promise<PlaybackState | null> => {
   try {
-    const state = await spotifyApi.getMyCurrentPlaybackState()
-    if (!state.body || !state.body.item) return null
+    const state = await spotifyGateway.call('getMyCurrentPlaybackState', () => spotifyApi.getMyCurrentPlaybackState())
+    if (!state || !state.item) return null
     
     // Check if the item is a track or an episode
-    const item = state.body.item
+    const item = state.item
     const isTrack = 'artists' in item && 'album' in item
     
     if (!isTrack) {
       // Handle podcast episode
       return {
-        isPlaying: state.body.is_playing,
+        isPlaying: state.is_playing,
         track: {
           id: item.id,
           name: item.name,
@@ -94,14 +84,14 @@ export const getCurrentPlayback = async (): Promise<PlaybackState | null> => {
           albumArt: item.images?.[0]?.url || '',
           duration: item.duration_ms
         },
-        progress: state.body.progress_ms || 0,
+        progress: state.progress_ms || 0,
         timestamp: Date.now()
       }
     }
     
     // Handle music track
     return {
-      isPlaying: state.body.is_playing,
+      isPlaying: state.is_playing,
       track: {
         id: item.id,
         name: item.name,
@@ -109,7 +99,7 @@ export const getCurrentPlayback = async (): Promise<PlaybackState | null> => {
         albumArt: item.album.images[0].url,
         duration: item.duration_ms
       },
-      progress: state.body.progress_ms || 0,
+      progress: state.progress_ms || 0,
       timestamp: Date.now()
     }
   } catch (error) {
@@ -0,0 +1,179 @@
+import type { Collection, Db } from 'mongodb'
+import SpotifyWebApi from 'spotify-web-api-node'
+import { spotifyGateway } from './spotifyGateway'
+
+// Audio features never change for a track; artist genres drift slowly
+export const TRACK_CACHE_TTL = 30 * 24 * 60 * 60 // seconds, 30 days
+export const ARTIST_CACHE_TTL = 7 * 24 * 60 * 60 // seconds, 7 days
+
+// Largest batches the Spotify endpoints accept
+const AUDIO_FEATURES_BATCH = 100
+const ARTISTS_BATCH = 50
+
+// Previews analyzed per getCachedAudioFeatures call. Each is a download and
+// a decode inside someone's request; the tracks left over stay uncached and
+// are picked up by later calls
+export const PREVIEWS_PER_CALL = 5
+// How long a 403 from the audio-features endpoint sends everything to
+// previews before the endpoint is tried again
+const AUDIO_FEATURES_RETRY_INTERVAL = 60 * 60 * 1000 // 1 hour
+
+export interface CacheEntry<T> {
+  _id: string // Spotify ID
+  // Null when Spotify has nothing for the ID (e.g. no audio analysis), so
+  // the miss is remembered instead of re-requested on every analysis
+  data: T | null
+  cachedAt: Date // expiry is handled by a TTL index on this field
+}
+
+// What fetchMissing answers for each ID: the data, null when Spotify has
+// nothing for it (remembered as a miss), or undefined when the lookup failed
+// or was skipped and should be tried again next time
+export type FetchResult<T> = T | null | undefined
+
+/**
+ * Read-through cache keyed by Spotify ID. Entries are read in one query and
+ * only the misses are fetched, in batches of `batchSize`.
+ */
+export class ReadThroughCache<T> {
+  constructor(
+    private collection: Collection<CacheEntry<T>>,
+    private batchSize: number
+  ) {}
+
+  async getMany(
+    ids: string[],
+    fetchMissing: (ids: string[]) => Promise<FetchResult<T>[]>
+  ): Promise<Map<string, T>> {
+    const uniqueIds = [...new Set(ids)]
+    const results = new Map<string, T>()
+    if (uniqueIds.length === 0) return results
+
+    const cached = await this.collection.find({ _id: { $in: uniqueIds } }).toArray()
+    const cachedIds = new Set<string>()
+    cached.forEach(entry => {
+      cachedIds.add(entry._id)
+      if (entry.data) results.set(entry._id, entry.data)
+    })
+
+    const missing = uniqueIds.filter(id => !cachedIds.has(id))
+    for (let start = 0; start < missing.length; start += this.batchSize) {
+      const batch = missing.slice(start, start + this.batchSize)
+      // Responses are positional, with null for unknown IDs
+      const fetched = await fetchMissing(batch)
+      const cachedAt = new Date()
+
+      const writes = batch.flatMap((id, index) => (fetched[index] === undefined ? [] : [{
+        replaceOne: {
+          filter: { _id: id },
+          replacement: { data: fetched[index] ?? null, cachedAt },
+          upsert: true
+        }
+      }]))
+      if (writes.length > 0) await this.collection.bulkWrite(writes)
+
+      batch.forEach((id, index) => {
+        const data = fetched[index]
+        if (data) results.set(id, data)
+      })
+    }
+
+    return results
+  }
+}
+
+export type CachedAudioFeatures = SpotifyApi.AudioFeaturesObject
+export type CachedArtist = SpotifyApi.ArtistObjectFull
+
+// Spotify answers 403 to apps created after the audio-features endpoint was
+// deprecated. A 403 sends this process to previews for a while rather than
+// for good, so one refused request (or a changed app setting) doesn't stick
+let audioFeaturesUnavailableUntil = 0
+
+async function fetchAudioFeatures(
+  spotifyApi: SpotifyWebApi,
+  ids: string[],
+  previews: { remaining: number }
+): Promise<FetchResult<CachedAudioFeatures>[]> {
+  let features: (CachedAudioFeatures | null)[] = ids.map(() => null)
+  if (process.env.AUDIO_FEATURES_SOURCE !== 'preview' && Date.now() >= audioFeaturesUnavailableUntil) {
+    try {
+      const response = await spotifyGateway.call('getAudioFeaturesForTracks', () => spotifyApi.getAudioFeaturesForTracks(ids))
+      features = response.audio_features
+    } catch (error: any) {
+      if (error?.statusCode !== 403) throw error
+      console.warn('Spotify refused audio features; extracting them from previews for the next hour')
+      audioFeaturesUnavailableUntil = Date.now() + AUDIO_FEATURES_RETRY_INTERVAL
+    }
+  }
+
+  const missing = ids.filter((id, index) => !features[index])
+  if (missing.length === 0) return features
+
+  // Loaded on demand so the decoder stays out of bundles that never analyze audio
+  const { extractPreviewFeatures } = await import('./previewFeatures')
+  const analyzed = missing.slice(0, previews.remaining)
+  previews.remaining -= analyzed.length
+  const extracted = await extractPreviewFeatures(spotifyApi, analyzed)
+  const extractedById = new Map(analyzed.map((id, index) => [id, extracted[index]]))
+  // Tracks past the preview budget come back undefined and stay uncached
+  return ids.map((id, index) => features[index] || extractedById.get(id))
+}
+
+/**
+ * Audio features from Spotify's endpoint, falling back to features extracted
+ * from track previews (lib/previewFeatures) for tracks Spotify has none for,
+ * or for everything when the endpoint is unavailable or
+ * AUDIO_FEATURES_SOURCE=preview. At most PREVIEWS_PER_CALL previews are
+ * analyzed per call, so results can be missing tracks a later call fills in.
+ */
+export async function getCachedAudioFeatures(
+  db: Db,
+  spotifyApi: SpotifyWebApi,
+  trackIds: string[]
+): Promise<Map<string, CachedAudioFeatures>> {
+  const cache = new ReadThroughCache(db.collection<CacheEntry<CachedAudioFeatures>>('trackCache'), AUDIO_FEATURES_BATCH)
+  const previews = { remaining: PREVIEWS_PER_CALL }
+  return cache.getMany(trackIds, ids => fetchAudioFeatures(spotifyApi, ids, previews))
+}
+
+export async function getCachedArtists(
+  db: Db,
+  spotifyApi: SpotifyWebApi,
+  artistIds: string[]
+): Promise<Map<string, CachedArtist>> {
+  const cache = new ReadThroughCache(db.collection<CacheEntry<CachedArtist>>('artistCache'), ARTISTS_BATCH)
+  return cache.getMany(artistIds, async ids => {
+    const response = await spotifyGateway.call('getArtists', () => spotifyApi.getArtists(ids))
+    return response.artists
+  })
+}
+
+// Collation of the artistCache name index, so lookups ignore case
+export const ARTIST_NAME_COLLATION = { locale: 'en', strength: 2 }
+
+/**
+ * Cached artists by name, for plays that name their artist without a
+ * Spotify ID (e.g. scrobbles). Only finds artists an earlier lookup cached,
+ * and never calls Spotify. Keys are the lowercased names.
+ */
+export async function findCachedArtistsByName(db: Db, names: string[]): Promise<Map<string, CachedArtist>> {
+  const results = new Map<string, CachedArtist>()
+  if (names.length === 0) return results
+
+  const cached = await db.collection<CacheEntry<CachedArtist>>('artistCache')
+    .find({ 'data.name': { $in: [...new Set(names)] } })
+    .collation(ARTIST_NAME_COLLATION)
+    .toArray()
+
+  // Several artists can share a name; take the most popular one
+  cached
+    .flatMap(entry => (entry.data ? [entry.data] : []))
+    .sort((a, b) => b.popularity - a.popularity)
+    .forEach(artist => {
+      const key = artist.name.toLowerCase()
+      if (!results.has(key)) results.set(key, artist)
+    })
+
+  return results
+}
@@ -0,0 +1,5 @@
+// Point these at scripts/mock-spotify-server.js to run the app offline
+// (`npm run dev:mock` does that, see scripts/mock-spotify-preload.js)
+export const SPOTIFY_API_BASE_URL = (process.env.SPOTIFY_API_BASE_URL || 'https://api.spotify.com').replace(/\/$/, '')
+export const SPOTIFY_ACCOUNTS_BASE_URL = (process.env.SPOTIFY_ACCOUNTS_BASE_URL || 'https://accounts.spotify.com').replace(/\/$/, '')
+
@@ -0,0 +1,202 @@
+import { MemoryTokenBucket, SharedTokenBucket, TokenBucket } from './rateLimit'
+
+export interface GatewayOptions {
+  // Token bucket shared by every call made with our client ID
+  bucketCapacity?: number
+  refillPerSecond?: number
+  // Where the bucket lives; a bucket local to this process by default
+  bucket?: TokenBucket
+  maxRetries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+export interface GatewayMetrics {
+  requests: number
+  succeeded: number
+  failed: number
+  retries: number
+  throttled: number // 429 responses
+  serverErrors: number // 5xx responses and network failures
+  backoffMs: number // total time spent waiting before retries
+  bucketWaitMs: number // total time spent waiting for a bucket token
+  lastThrottledAt: string | null
+  byOperation: Record<string, { requests: number; throttled: number; failed: number }>
+}
+
+const DEFAULT_BUCKET_CAPACITY = 20
+const DEFAULT_REFILL_PER_SECOND = 10
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function createMetrics(): GatewayMetrics {
+  return {
+    requests: 0,
+    succeeded: 0,
+    failed: 0,
+    retries: 0,
+    throttled: 0,
+    serverErrors: 0,
+    backoffMs: 0,
+    bucketWaitMs: 0,
+    lastThrottledAt: null,
+    byOperation: {}
+  }
+}
+
+// spotify-web-api-node rejects with a WebapiError carrying the HTTP status
+// and headers; failures without a status never reached Spotify
+function getStatusCode(error: any): number | undefined {
+  return typeof error?.statusCode === 'number' ? error.statusCode : undefined
+}
+
+function getRetryAfterMs(error: any): number | null {
+  const header = error?.headers?.['retry-after']
+  if (header === undefined) return null
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+
+  // Retry-After may also be an HTTP date
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Connection failures worth another try. Anything else without a status
+// (a bug, a bad argument) would fail the same way again.
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH'
+])
+
+export function isNetworkError(error: any): boolean {
+  // spotify-web-api-node turns request timeouts into a TimeoutError
+  return error?.name === 'TimeoutError' || NETWORK_ERROR_CODES.has(error?.code)
+}
+
+export function isRetryable(error: any): boolean {
+  const status = getStatusCode(error)
+  if (status === undefined) return isNetworkError(error)
+  return status === 429 || status >= 500
+}
+
+/**
+ * Every Spotify Web API call goes through here. Calls take a token from a
+ * bucket before they are sent, so batch ingestion can't burst past our
+ * app's rate limit, and 429/5xx responses and network failures are retried:
+ * after the Retry-After delay Spotify asks for, or with exponential backoff
+ * and full jitter when it doesn't say.
+ */
+export class SpotifyGateway {
+  private bucket: TokenBucket
+  private metrics = createMetrics()
+  private maxRetries: number
+  private baseDelayMs: number
+  private maxDelayMs: number
+
+  constructor(options: GatewayOptions = {}) {
+    this.bucket = options.bucket ?? new MemoryTokenBucket({
+      capacity: options.bucketCapacity ?? DEFAULT_BUCKET_CAPACITY,
+      refillPerSecond: options.refillPerSecond ?? DEFAULT_REFILL_PER_SECOND
+    })
+    this.maxRetries = options.maxRetries ?? 4
+    this.baseDelayMs = options.baseDelayMs ?? 500
+    this.maxDelayMs = options.maxDelayMs ?? 30 * 1000
+  }
+
+  /**
+   * Runs `request` (a thunk so it can be re-sent) and resolves with the
+   * response body. `operation` only labels the call in metrics.
+   */
+  async call<T>(operation: string, request: () => Promise<{ body: T }>): Promise<T> {
+    const stats = this.metrics.byOperation[operation] ||= { requests: 0, throttled: 0, failed: 0 }
+
+    for (let attempt = 0; ; attempt++) {
+      await this.takeToken()
+      this.metrics.requests++
+      stats.requests++
+
+      try {
+        const response = await request()
+        this.metrics.succeeded++
+        return response.body
+      } catch (error) {
+        const status = getStatusCode(error)
+        if (status === 429) {
+          this.metrics.throttled++
+          this.metrics.lastThrottledAt = new Date().toISOString()
+          stats.throttled++
+        } else if (status === undefined ? isNetworkError(error) : status >= 500) {
+          this.metrics.serverErrors++
+        }
+
+        const retryAfter = getRetryAfterMs(error)
+        if (retryAfter !== null) {
+          // A 429 means the whole app is over its limit, so hold back every
+          // other caller for the same window, even when this call gives up
+          // rather than wait that long
+          await this.bucket.pause(Date.now() + retryAfter)
+        }
+
+        const delay = isRetryable(error) && attempt < this.maxRetries ? this.getDelay(error, attempt) : null
+        if (delay === null) {
+          this.metrics.failed++
+          stats.failed++
+          throw error
+        }
+
+        console.warn(`Spotify ${operation} failed with ${status ?? 'a network error'}, retrying in ${delay}ms`)
+        this.metrics.retries++
+        this.metrics.backoffMs += delay
+        await sleep(delay)
+      }
+    }
+  }
+
+  async getMetrics(): Promise<GatewayMetrics & { availableTokens: number }> {
+    return { ...this.metrics, availableTokens: Math.floor(await this.bucket.available()) }
+  }
+
+  resetMetrics() {
+    this.metrics = createMetrics()
+  }
+
+  // Null when Spotify asks us to back off for longer than we're willing to wait
+  private getDelay(error: any, attempt: number): number | null {
+    const retryAfter = getRetryAfterMs(error)
+    if (retryAfter !== null) {
+      return retryAfter > this.maxDelayMs ? null : retryAfter
+    }
+
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt)
+    return Math.round(Math.random() * ceiling)
+  }
+
+  private async takeToken() {
+    const wait = await this.bucket.take()
+    if (wait > 0) {
+      this.metrics.bucketWaitMs += wait
+      await sleep(wait)
+    }
+  }
+}
+
+// Limits are per app, so the budget is shared by every user's client and
+// every server instance
+export const spotifyGateway = new SpotifyGateway({
+  bucket: new SharedTokenBucket(
+    'spotify',
+    {
+      capacity: Number(process.env.SPOTIFY_RATE_LIMIT_BURST) || DEFAULT_BUCKET_CAPACITY,
+      refillPerSecond: Number(process.env.SPOTIFY_RATE_LIMIT_PER_SECOND) || DEFAULT_REFILL_PER_SECOND
+    },
+    // Loaded on first use so importing the gateway doesn't need MONGODB_URI
+    async () => (await (await import('./database')).connectToDatabase()).db
+  )
+})
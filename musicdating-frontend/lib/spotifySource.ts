@@ -0,0 +1,131 @@
+import SpotifyWebApi from 'spotify-web-api-node'
+import { spotifyGateway } from './spotifyGateway'
+import { MusicSource, SourceArtist, SourcePlay, SourcePlaylist, SourceTrack } from './musicSource'
+
+export type SpotifyTimeRange = 'short_term' | 'medium_term' | 'long_term'
+
+// Spotify caps pages at 50 items (100 for playlist tracks)
+const PAGE_SIZE = 50
+const PLAYLIST_PAGE_SIZE = 100
+
+function toSourceArtist(artist: SpotifyApi.ArtistObjectSimplified | SpotifyApi.ArtistObjectFull): SourceArtist {
+  return { id: artist.id, name: artist.name, genres: 'genres' in artist ? artist.genres : [] }
+}
+
+function toSourceTrack(track: SpotifyApi.TrackObjectFull): SourceTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artists: track.artists.map(toSourceArtist),
+    albumName: track.album?.name ?? null,
+    durationMs: track.duration_ms
+  }
+}
+
+export class SpotifyMusicSource implements MusicSource {
+  readonly id = 'spotify'
+
+  constructor(
+    private spotifyApi: SpotifyWebApi,
+    private timeRange: SpotifyTimeRange = 'short_term'
+  ) {}
+
+  // The API only exposes the last 50 plays; see lib/listeningHistoryImport
+  // and lib/listeningHistoryPoller for building profiles from stored history
+  async getRecentPlays(limit: number = PAGE_SIZE): Promise<SourcePlay[]> {
+    const recent = await spotifyGateway.call(
+      'getMyRecentlyPlayedTracks',
+      () => this.spotifyApi.getMyRecentlyPlayedTracks({ limit: Math.min(limit, PAGE_SIZE) })
+    )
+    return recent.items.map(item => ({
+      track: toSourceTrack(item.track),
+      playedAt: new Date(item.played_at).getTime()
+    }))
+  }
+
+  /**
+   * Plays after `after` (epoch milliseconds), most recent first. Pages
+   * forward from the cursor for at most `maxPages` pages. Spotify only keeps
+   * the last 50 plays, so anything older than that is gone regardless.
+   */
+  async getPlaysSince(after: number, maxPages: number = 5): Promise<SourcePlay[]> {
+    const plays: SourcePlay[] = []
+    let cursor = after
+
+    for (let page = 0; page < maxPages; page++) {
+      const since = cursor
+      const recent = await spotifyGateway.call(
+        'getMyRecentlyPlayedTracks',
+        () => this.spotifyApi.getMyRecentlyPlayedTracks({ limit: PAGE_SIZE, after: since })
+      )
+      const items = recent.items
+        .map(item => ({ track: toSourceTrack(item.track), playedAt: new Date(item.played_at).getTime() }))
+        .filter(play => play.playedAt > since)
+      plays.push(...items)
+
+      const newest = items.reduce((latest, play) => Math.max(latest, play.playedAt), since)
+      if (!recent.next || newest === since) break
+      cursor = newest
+    }
+
+    return plays.sort((a, b) => b.playedAt - a.playedAt)
+  }
+
+  async getTopArtists(limit: number = 20): Promise<SourceArtist[]> {
+    const top = await spotifyGateway.call(
+      'getMyTopArtists',
+      () => this.spotifyApi.getMyTopArtists({ time_range: this.timeRange, limit: Math.min(limit, PAGE_SIZE) })
+    )
+    return top.items.map(toSourceArtist)
+  }
+
+  async getPlaylists(): Promise<SourcePlaylist[]> {
+    const playlists: SourcePlaylist[] = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await spotifyGateway.call(
+        'getUserPlaylists',
+        () => this.spotifyApi.getUserPlaylists({ offset, limit: PAGE_SIZE })
+      )
+      page.items.forEach(playlist => playlists.push({
+        id: playlist.id,
+        name: playlist.name,
+        trackCount: playlist.tracks.total
+      }))
+      if (!page.next || page.items.length === 0) return playlists
+    }
+  }
+
+  // Every music track in the playlist, following pagination. Local files have
+  // no Spotify ID to look up, removed tracks come back as null and podcast
+  // episodes have no audio features, so all of those are skipped.
+  async getPlaylistTracks(playlistId: string): Promise<SourceTrack[]> {
+    const tracks: SourceTrack[] = []
+
+    for (let offset = 0; ; offset += PLAYLIST_PAGE_SIZE) {
+      const page = await spotifyGateway.call(
+        'getPlaylistTracks',
+        () => this.spotifyApi.getPlaylistTracks(playlistId, { offset, limit: PLAYLIST_PAGE_SIZE })
+      )
+
+      page.items.forEach(item => {
+        const track = item.track as SpotifyApi.TrackObjectFull | SpotifyApi.EpisodeObjectFull | null
+        if (!track || item.is_local || track.type !== 'track' || !track.id) return
+        tracks.push(toSourceTrack(track))
+      })
+
+      if (!page.next || page.items.length === 0) return tracks
+    }
+  }
+
+  async getTracks(trackIds: string[]): Promise<SourceTrack[]> {
+    const tracks: SourceTrack[] = []
+    for (let start = 0; start < trackIds.length; start += PAGE_SIZE) {
+      const batch = trackIds.slice(start, start + PAGE_SIZE)
+      const response = await spotifyGateway.call('getTracks', () => this.spotifyApi.getTracks(batch))
+      response.tracks.forEach(track => {
+        if (track) tracks.push(toSourceTrack(track))
+      })
+    }
+    return tracks
+  }
+}
@@ -0,0 +1,211 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import type { ObjectId } from 'mongodb'
+import { getToken } from 'next-auth/jwt'
+import clientPromise from './mongodb'
+import { toObjectId } from './objectId'
+import { AUTH_SECRET, USE_SECURE_COOKIES } from './authConfig'
+import { createSpotifyClient } from './spotify'
+import { SPOTIFY_ACCOUNTS_BASE_URL } from './spotifyEndpoints'
+
+// Refresh slightly early so a token can't expire mid-request
+export const REFRESH_MARGIN = 60 * 1000
+
+export const REFRESH_ERROR = 'RefreshAccessTokenError'
+export const NOT_LINKED_ERROR = 'SpotifyNotLinked'
+
+export interface SpotifyTokens {
+  accessToken?: string
+  refreshToken?: string
+  accessTokenExpires?: number // epoch milliseconds
+}
+
+export class SpotifyAuthError extends Error {
+  code = REFRESH_ERROR
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'SpotifyAuthError'
+  }
+}
+
+// The user has no Spotify tokens at all, e.g. the demo account. Signing in
+// again won't help, so routes that can do without Spotify should degrade.
+export class SpotifyNotLinkedError extends Error {
+  code = NOT_LINKED_ERROR
+
+  constructor(message = 'No Spotify account linked') {
+    super(message)
+    this.name = 'SpotifyNotLinkedError'
+  }
+}
+
+export function needsRefresh(tokens: SpotifyTokens, now: number = Date.now()): boolean {
+  return !tokens.accessToken || !tokens.accessTokenExpires || now >= tokens.accessTokenExpires - REFRESH_MARGIN
+}
+
+/**
+ * Single place that refreshes Spotify tokens, used by the NextAuth jwt
+ * callback and by server routes. Spotify may rotate the refresh token, so
+ * the newest one is persisted to the adapter's `accounts` collection and
+ * preferred over whatever an older JWT cookie still carries.
+ */
+export async function refreshSpotifyTokens(userId: string | undefined, tokens: SpotifyTokens): Promise<SpotifyTokens> {
+  const refreshToken = (await getStoredTokens(userId))?.refreshToken || tokens.refreshToken
+  if (!refreshToken) {
+    throw new SpotifyAuthError('No refresh token available')
+  }
+
+  const params = new URLSearchParams({
+    client_id: process.env.SPOTIFY_CLIENT_ID || '',
+    client_secret: process.env.SPOTIFY_CLIENT_SECRET || '',
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  })
+
+  console.log(`Refreshing access token for user ${userId || 'unknown'}`)
+
+  const response = await fetch(`${SPOTIFY_ACCOUNTS_BASE_URL}/api/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params.toString(),
+  })
+  const refreshedTokens = await response.json()
+
+  if (!response.ok) {
+    console.error('Error refreshing access token', refreshedTokens)
+    throw new SpotifyAuthError('Failed to refresh access token')
+  }
+
+  const refreshed: SpotifyTokens = {
+    accessToken: refreshedTokens.access_token,
+    accessTokenExpires: Date.now() + refreshedTokens.expires_in * 1000,
+    // Fall back to old refresh token if a new one isn't provided
+    refreshToken: refreshedTokens.refresh_token ?? refreshToken,
+  }
+
+  await persistTokens(userId, refreshed)
+  return refreshed
+}
+
+export async function ensureFreshTokens(userId: string | undefined, tokens: SpotifyTokens): Promise<SpotifyTokens> {
+  return needsRefresh(tokens) ? refreshSpotifyTokens(userId, tokens) : tokens
+}
+
+/**
+ * Client for the signed-in user of an API route. Reads the tokens from the
+ * NextAuth JWT rather than the client-visible session. When those are about
+ * to expire (or their refresh failed), the tokens stored in `accounts` are
+ * tried before refreshing: another request or instance may have refreshed
+ * them already. Throws SpotifyAuthError when the user has to sign in with
+ * Spotify again, and SpotifyNotLinkedError when they have no Spotify tokens.
+ */
+export async function getSpotifyApi(req: NextApiRequest) {
+  const token = await getToken({ req, secret: AUTH_SECRET, secureCookie: USE_SECURE_COOKIES })
+  if (!token) {
+    throw new SpotifyAuthError('Spotify session expired')
+  }
+  if (!token.error && !needsRefresh(token)) {
+    return createSpotifyClient(token.accessToken)
+  }
+
+  const userId = token.user?.id
+  const stored = await getStoredTokens(userId)
+  if (stored && !needsRefresh(stored)) {
+    return createSpotifyClient(stored.accessToken)
+  }
+  if (!stored?.refreshToken && !token.refreshToken) {
+    throw new SpotifyNotLinkedError()
+  }
+
+  const tokens = await refreshSpotifyTokens(userId, token)
+  return createSpotifyClient(tokens.accessToken)
+}
+
+/**
+ * Client for a user outside of any request of theirs (scheduled jobs), using
+ * the tokens the adapter stored when they signed in with Spotify.
+ */
+export async function getSpotifyApiForUser(userId: ObjectId) {
+  const stored = await getStoredTokens(userId.toString())
+  if (!stored?.refreshToken) {
+    throw new SpotifyNotLinkedError()
+  }
+
+  const tokens = await ensureFreshTokens(userId.toString(), stored)
+  return createSpotifyClient(tokens.accessToken)
+}
+
+// Spotify accounts linked after the account `after`, oldest first. The
+// adapter's ObjectIds grow with creation time, so `after` works as a cursor
+export async function getSpotifyAccountsLinkedAfter(
+  after: ObjectId | null,
+  limit: number
+): Promise<{ _id: ObjectId; userId: ObjectId }[]> {
+  return (await getAccounts())
+    .find({ provider: 'spotify', ...(after ? { _id: { $gt: after } } : {}) }, { projection: { userId: 1 } })
+    .sort({ _id: 1 })
+    .limit(limit)
+    .toArray() as Promise<{ _id: ObjectId; userId: ObjectId }[]>
+}
+
+// For API routes: turns a failed refresh into a 401 the client knows to
+// answer by sending the user back through Spotify sign-in. Users without
+// Spotify get a 409 instead, since signing in again wouldn't help them.
+export function sendSpotifyAuthError(res: NextApiResponse, error: unknown): boolean {
+  if (error instanceof SpotifyNotLinkedError) {
+    res.status(409).json({ error: NOT_LINKED_ERROR, message: error.message })
+    return true
+  }
+  if (!(error instanceof SpotifyAuthError)) return false
+  res.status(401).json({ error: REFRESH_ERROR, message: error.message })
+  return true
+}
+
+// The adapter stores accounts in the database named in MONGODB_URI, which
+// is why this uses client.db() rather than MONGODB_DB
+async function getAccounts() {
+  const client = await clientPromise
+  return client.db().collection('accounts')
+}
+
+// The tokens the adapter stored for the user's Spotify account, kept up to
+// date by persistTokens after every refresh
+async function getStoredTokens(userId: string | undefined): Promise<SpotifyTokens | null> {
+  const objectId = toObjectId(userId)
+  if (!objectId) return null
+
+  try {
+    const account = await (await getAccounts()).findOne({ userId: objectId, provider: 'spotify' })
+    if (!account) return null
+    return {
+      accessToken: account.access_token || undefined,
+      refreshToken: account.refresh_token || undefined,
+      accessTokenExpires: account.expires_at ? account.expires_at * 1000 : undefined
+    }
+  } catch (error) {
+    console.warn('Could not read stored Spotify tokens, using the ones from the session', error)
+    return null
+  }
+}
+
+async function persistTokens(userId: string | undefined, tokens: SpotifyTokens) {
+  const objectId = toObjectId(userId)
+  if (!objectId) return
+
+  try {
+    await (await getAccounts()).updateOne(
+      { userId: objectId, provider: 'spotify' },
+      {
+        $set: {
+          access_token: tokens.accessToken,
+          refresh_token: tokens.refreshToken,
+          expires_at: Math.floor(tokens.accessTokenExpires! / 1000),
+        }
+      }
+    )
+  } catch (error) {
+    // The refreshed token is still valid for this request; the next refresh
+    // falls back to the refresh token carried in the JWT
+    console.error('Error persisting rotated Spotify tokens', error)
+  }
+}
@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from './database'
+import { recordSwipe } from './swipes'
+import { recordLike } from './matches'
+
+type Decision = 'like' | 'superlike' | 'pass'
+
+// Shared implementation of /api/like, /api/superlike and /api/pass
+export function createSwipeHandler(decision: Decision) {
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+      return res.status(405).json({ message: 'Method not allowed' })
+    }
+
+    const session = await getSession({ req })
+    if (!session) {
+      return res.status(401).json({ message: 'Unauthorized' })
+    }
+
+    const userId = toObjectId(session.user.id)
+    const targetId = toObjectId(req.body?.targetId)
+    if (!userId) {
+      return res.status(404).json({ message: 'User not found' })
+    }
+    if (!targetId || targetId.equals(userId)) {
+      return res.status(400).json({ message: 'Invalid targetId' })
+    }
+
+    try {
+      const { db } = await connectToDatabase()
+
+      const target = await db.collection('users').findOne({ _id: targetId }, { projection: { _id: 1 } })
+      if (!target) {
+        return res.status(404).json({ message: 'User not found' })
+      }
+
+      await recordSwipe(db, userId, targetId, decision)
+
+      if (decision === 'pass') {
+        return res.status(200).json({ matched: false, matchId: null, status: null })
+      }
+
+      const { outcome, matchId } = await recordLike(db, userId, targetId, decision === 'superlike')
+      if (outcome === 'closed') {
+        return res.status(409).json({ message: 'This match was closed and cannot be reopened', status: outcome })
+      }
+
+      return res.status(200).json({ matched: outcome === 'matched', matchId, status: outcome })
+    } catch (error) {
+      console.error(`Error recording ${decision}:`, error)
+      return res.status(500).json({ message: 'Internal server error' })
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { Db, ObjectId } from 'mongodb'
+
+// 'seen' is written when a candidate is served in the deck; the others are
+// explicit decisions and always overwrite whatever was recorded before.
+export type SwipeAction = 'seen' | 'like' | 'superlike' | 'pass' | 'block'
+
+// Served but unanswered candidates come back after this long, so a lost
+// response or a closed tab doesn't hide them for good
+export const SEEN_TTL = 3 * 24 * 60 * 60 * 1000 // 3 days
+
+export interface SwipeDocument {
+  _id?: ObjectId
+  userId: ObjectId
+  targetId: ObjectId
+  action: SwipeAction
+  createdAt: Date
+  updatedAt: Date
+  expiresAt?: Date // only on 'seen' entries; removed by a TTL index
+}
+
+// The TTL monitor only runs every minute, so queries skip expired entries too
+function unexpired(now: Date) {
+  return { $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }] }
+}
+
+export async function markSeen(db: Db, userId: ObjectId, targetIds: ObjectId[]) {
+  if (targetIds.length === 0) return
+
+  const now = new Date()
+  await db.collection<SwipeDocument>('swipes').bulkWrite(
+    targetIds.map(targetId => ({
+      updateOne: {
+        filter: { userId, targetId },
+        update: {
+          $setOnInsert: {
+            userId,
+            targetId,
+            action: 'seen',
+            createdAt: now,
+            updatedAt: now,
+            expiresAt: new Date(now.getTime() + SEEN_TTL)
+          }
+        },
+        upsert: true
+      }
+    })),
+    { ordered: false }
+  )
+}
+
+export async function recordSwipe(
+  db: Db,
+  userId: ObjectId,
+  targetId: ObjectId,
+  action: Exclude<SwipeAction, 'seen'>
+) {
+  const now = new Date()
+  await db.collection<SwipeDocument>('swipes').updateOne(
+    { userId, targetId },
+    {
+      $set: { action, updatedAt: now },
+      $setOnInsert: { createdAt: now },
+      // A decision is permanent, unlike a served-only mark
+      $unset: { expiresAt: '' }
+    },
+    { upsert: true }
+  )
+}
+
+/**
+ * Which of `targetIds` the user already has a ledger entry for, plus which
+ * of them blocked the user. Bounded by `targetIds`, e.g. one candidate pool;
+ * for open-ended candidate queries use createSwipeExclusionStages instead.
+ */
+export async function getExcludedUserIds(
+  db: Db,
+  userId: ObjectId,
+  targetIds: ObjectId[],
+  now: Date = new Date()
+): Promise<ObjectId[]> {
+  if (targetIds.length === 0) return []
+
+  const [ownSwipes, blockedBy] = await Promise.all([
+    db.collection<SwipeDocument>('swipes')
+      .find({ userId, targetId: { $in: targetIds }, ...unexpired(now) }, { projection: { targetId: 1 } })
+      .toArray(),
+    db.collection<SwipeDocument>('swipes')
+      .find({ userId: { $in: targetIds }, targetId: userId, action: 'block' }, { projection: { userId: 1 } })
+      .toArray()
+  ])
+
+  return [
+    ...ownSwipes.map(swipe => swipe.targetId),
+    ...blockedBy.map(swipe => swipe.userId)
+  ]
+}
+
+/**
+ * Aggregation stages over `users` that drop anyone the user has a ledger
+ * entry for and anyone who blocked them. Each candidate is looked up on the
+ * unique userId + targetId index, so the cost doesn't grow with the number
+ * of swipes the way a $nin over all of them would.
+ */
+export function createSwipeExclusionStages(userId: ObjectId, now: Date = new Date()) {
+  return [
+    {
+      $lookup: {
+        from: 'swipes',
+        localField: '_id',
+        foreignField: 'targetId',
+        pipeline: [{ $match: { userId, ...unexpired(now) } }, { $limit: 1 }, { $project: { _id: 1 } }],
+        as: 'ownSwipe'
+      }
+    },
+    {
+      $lookup: {
+        from: 'swipes',
+        localField: '_id',
+        foreignField: 'userId',
+        pipeline: [{ $match: { targetId: userId, action: 'block' } }, { $limit: 1 }, { $project: { _id: 1 } }],
+        as: 'blockedBy'
+      }
+    },
+    { $match: { ownSwipe: { $size: 0 }, blockedBy: { $size: 0 } } },
+    { $unset: ['ownSwipe', 'blockedBy'] }
+  ]
+}
+
+// Users on either side of a block involving `userId`
+export async function getBlockedUserIds(db: Db, userId: ObjectId): Promise<ObjectId[]> {
+  const blocks = await db.collection<SwipeDocument>('swipes')
+    .find(
+      { action: 'block', $or: [{ userId }, { targetId: userId }] },
+      { projection: { userId: 1, targetId: 1 } }
+    )
+    .toArray()
+
+  return blocks.map(block => (block.userId.equals(userId) ? block.targetId : block.userId))
+}
@@ -0,0 +1,171 @@
+import { Db, GridFSBucket, ObjectId } from 'mongodb'
+import { UserDocument } from '../types/user'
+import { HnswIndex, SerializedHnswIndex } from '../utils/hnswIndex'
+import { TASTE_VECTOR_LENGTH, buildTasteVector, hasTasteSignal } from '../utils/tasteVector'
+
+// The candidate pool job builds the index and stores it in this GridFS
+// bucket; server instances download the latest build instead of each
+// building their own
+const INDEX_BUCKET = 'tasteIndex'
+// Builds kept, so an instance still downloading the previous one can finish
+const INDEX_BUILDS_KEPT = 2
+// How often an instance checks for a newer build
+const INDEX_CHECK_INTERVAL = 5 * 60 * 1000 // 5 minutes
+// Before the first job run there is nothing stored; local builds are
+// redone at most this often
+const LOCAL_INDEX_MAX_AGE = 60 * 60 * 1000 // 1 hour
+
+// Fields buildTasteVector reads. musicProfileUpdatedAt tracks changes to
+// all of them, not only musicProfile.
+export const TASTE_INPUT_FIELDS = ['musicProfile', 'playlistProfile', 'listenerPersonality'] as const
+
+let cachedIndex: { index: HnswIndex; buildId: string | null; loadedAt: number; checkedAt: number } | null = null
+
+/**
+ * Adds musicProfileUpdatedAt to a user $set that writes any taste input, so
+ * refreshTasteVectors recomputes the user's vector on its next run.
+ */
+export function withTasteTimestamp<T extends object>(set: T, now: Date = new Date()): T & { musicProfileUpdatedAt?: Date } {
+  return TASTE_INPUT_FIELDS.some(field => field in set) ? { ...set, musicProfileUpdatedAt: now } : set
+}
+
+// Pure build step, separate from Mongo so the index can be tested offline
+export function buildTasteIndex(users: Pick<UserDocument, '_id' | 'tasteVector'>[]): HnswIndex {
+  const index = new HnswIndex(TASTE_VECTOR_LENGTH)
+  users.forEach(user => {
+    if (user.tasteVector?.length === TASTE_VECTOR_LENGTH && hasTasteSignal(user.tasteVector)) {
+      index.add(user._id.toString(), user.tasteVector)
+    }
+  })
+  return index
+}
+
+export async function loadTasteIndex(db: Db): Promise<HnswIndex> {
+  const users = await db.collection('users')
+    .find({ tasteVector: { $exists: true } }, { projection: { tasteVector: 1 } })
+    .toArray() as Pick<UserDocument, '_id' | 'tasteVector'>[]
+  return buildTasteIndex(users)
+}
+
+async function findLatestBuild(db: Db): Promise<{ _id: ObjectId } | null> {
+  return db.collection(`${INDEX_BUCKET}.files`)
+    .find({}, { projection: { _id: 1 } })
+    .sort({ uploadDate: -1 })
+    .limit(1)
+    .next() as Promise<{ _id: ObjectId } | null>
+}
+
+async function downloadTasteIndex(db: Db, buildId: ObjectId): Promise<HnswIndex> {
+  const chunks: Buffer[] = []
+  for await (const chunk of new GridFSBucket(db, { bucketName: INDEX_BUCKET }).openDownloadStream(buildId)) {
+    chunks.push(chunk)
+  }
+  return HnswIndex.fromJSON(JSON.parse(Buffer.concat(chunks).toString()) as SerializedHnswIndex)
+}
+
+// Stores a build for every instance to load and drops all but the newest few
+export async function saveTasteIndex(db: Db, index: HnswIndex): Promise<ObjectId> {
+  const bucket = new GridFSBucket(db, { bucketName: INDEX_BUCKET })
+  const upload = bucket.openUploadStream('taste-index.json', { metadata: { size: index.size } })
+  await new Promise<void>((resolve, reject) => {
+    upload.once('finish', () => resolve()).once('error', reject)
+    upload.end(Buffer.from(JSON.stringify(index.toJSON())))
+  })
+
+  const outdated = await db.collection(`${INDEX_BUCKET}.files`)
+    .find({}, { projection: { _id: 1 } })
+    .sort({ uploadDate: -1 })
+    .skip(INDEX_BUILDS_KEPT)
+    .toArray()
+  for (const build of outdated) {
+    await bucket.delete(build._id)
+  }
+
+  return upload.id as ObjectId
+}
+
+export async function getTasteIndex(db: Db): Promise<HnswIndex> {
+  const now = Date.now()
+  if (cachedIndex && now - cachedIndex.checkedAt < INDEX_CHECK_INTERVAL) {
+    return cachedIndex.index
+  }
+
+  const latest = await findLatestBuild(db)
+  const buildId = latest?._id.toString() ?? null
+  const stale = !cachedIndex ||
+    cachedIndex.buildId !== buildId ||
+    (buildId === null && now - cachedIndex.loadedAt > LOCAL_INDEX_MAX_AGE)
+
+  if (stale) {
+    const index = latest ? await downloadTasteIndex(db, latest._id) : await loadTasteIndex(db)
+    cachedIndex = { index, buildId, loadedAt: now, checkedAt: now }
+  } else {
+    cachedIndex!.checkedAt = now
+  }
+  return cachedIndex!.index
+}
+
+/**
+ * Refreshes stale taste vectors, then rebuilds and stores the index if any
+ * changed or none is stored yet. The graph is append-only, so changed
+ * vectors need a full rebuild; runs without changes reuse the stored one.
+ */
+export async function refreshTasteIndex(db: Db): Promise<{ vectorsUpdated: number; rebuilt: boolean }> {
+  const vectorsUpdated = await refreshTasteVectors(db)
+  if (vectorsUpdated === 0 && await findLatestBuild(db)) {
+    return { vectorsUpdated, rebuilt: false }
+  }
+
+  await saveTasteIndex(db, await loadTasteIndex(db))
+  // Make this instance pick up the new build on its next lookup
+  cachedIndex = null
+  return { vectorsUpdated, rebuilt: true }
+}
+
+/**
+ * Recomputes taste vectors for users whose music data changed since the
+ * vector was stored (or who never had one). Returns how many were updated.
+ */
+export async function refreshTasteVectors(db: Db, batchSize: number = 500): Promise<number> {
+  const users = await db.collection('users')
+    .find({
+      $or: [
+        { tasteVector: { $exists: false } },
+        { $expr: { $lt: ['$tasteVectorUpdatedAt', '$musicProfileUpdatedAt'] } }
+      ]
+    })
+    .limit(batchSize)
+    .toArray() as UserDocument[]
+
+  if (users.length === 0) return 0
+
+  const now = new Date()
+  await db.collection('users').bulkWrite(
+    users.map(user => ({
+      updateOne: {
+        filter: { _id: user._id },
+        update: { $set: { tasteVector: buildTasteVector(user), tasteVectorUpdatedAt: now } }
+      }
+    })),
+    { ordered: false }
+  )
+
+  return users.length
+}
+
+// Ids of the users with the most similar taste vectors, closest first
+export async function findNearestUsers(
+  db: Db,
+  user: UserDocument,
+  k: number
+): Promise<ObjectId[] | null> {
+  const vector = user.tasteVector || buildTasteVector(user)
+  if (!hasTasteSignal(vector)) return null
+
+  const index = await getTasteIndex(db)
+  return index
+    .search(vector, k + 1)
+    .filter(result => result.id !== user._id.toString())
+    .slice(0, k)
+    .map(result => new ObjectId(result.id))
+}
@@ -9,7 +9,15 @@ export default withAuth({
 export const config = {
   matcher: [
     "/",
+    "/onboarding",
     "/api/match/:path*",
+    "/api/like",
+    "/api/superlike",
+    "/api/pass",
+    "/api/matches/:path*",
+    "/api/profile/:path*",
+    "/api/onboarding",
     "/api/moments/:path*",
+    "/api/import/:path*",
   ]
 }
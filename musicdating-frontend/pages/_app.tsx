@@ -1,10 +1,37 @@
 import { ChakraProvider, useToast } from '@chakra-ui/react'
-import { SessionProvider } from 'next-auth/react'
+import { SessionProvider, signIn, useSession } from 'next-auth/react'
 import type { AppProps } from 'next/app'
+import axios from 'axios'
 import theme from '../styles/theme'
 import { useEffect } from 'react'
 import { useRouter } from 'next/router'
 
+const REFRESH_ERROR = 'RefreshAccessTokenError'
+
+// Sends the user back through Spotify sign-in once their refresh token stops
+// working, whether the session reports it or an API route answers with a 401
+function SpotifyReauth() {
+  const { data: session } = useSession()
+
+  useEffect(() => {
+    if (session?.error === REFRESH_ERROR) {
+      signIn('spotify')
+    }
+  }, [session?.error])
+
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, error => {
+      if (error.response?.status === 401 && error.response.data?.error === REFRESH_ERROR) {
+        signIn('spotify')
+      }
+      return Promise.reject(error)
+    })
+    return () => axios.interceptors.response.eject(interceptor)
+  }, [])
+
+  return null
+}
+
 export default function App({ 
   Component, 
   pageProps: { session, ...pageProps }
@@ -31,6 +58,7 @@ export default function App({
   return (
     <SessionProvider session={session}>
       <ChakraProvider theme={theme}>
+        <SpotifyReauth />
         <Component {...pageProps} />
       </ChakraProvider>
     </SessionProvider>
@@ -5,6 +5,9 @@ import { MongoDBAdapter } from '@next-auth/mongodb-adapter'
 import clientPromise from '../../../lib/mongodb'
 import { JWT } from 'next-auth/jwt'
 import { Session } from 'next-auth'
+import { REFRESH_ERROR, needsRefresh, refreshSpotifyTokens } from '../../../lib/spotifyTokens'
+import { AUTH_SECRET, USE_SECURE_COOKIES } from '../../../lib/authConfig'
+import { SPOTIFY_ACCOUNTS_BASE_URL, SPOTIFY_API_BASE_URL } from '../../../lib/spotifyEndpoints'
 
 // Extend the JWT type to include our custom properties
 interface ExtendedJWT extends JWT {
@@ -42,54 +45,6 @@ const scope = [
   'user-read-recently-played',
 ].join(' ')
 
-// Function to refresh Spotify access token
-async function refreshAccessToken(token: ExtendedJWT): Promise<ExtendedJWT> {
-  try {
-    if (!token.refreshToken) {
-      throw new Error("No refresh token available");
-    }
-
-    const url = 'https://accounts.spotify.com/api/token';
-    const params = new URLSearchParams({
-      client_id: process.env.SPOTIFY_CLIENT_ID || '',
-      client_secret: process.env.SPOTIFY_CLIENT_SECRET || '',
-      grant_type: 'refresh_token',
-      refresh_token: token.refreshToken,
-    });
-
-    console.log(`Refreshing access token for user ${token.user?.name || 'unknown'}`);
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: params.toString(),
-    });
-
-    const refreshedTokens = await response.json();
-
-    if (!response.ok) {
-      console.error('Error refreshing access token', refreshedTokens);
-      throw new Error("Failed to refresh access token");
-    }
-
-    console.log('Token refreshed successfully');
-
-    return {
-      ...token,
-      accessToken: refreshedTokens.access_token,
-      accessTokenExpires: Date.now() + refreshedTokens.expires_in * 1000,
-      // Fall back to old refresh token if a new one isn't provided
-      refreshToken: refreshedTokens.refresh_token ?? token.refreshToken,
-    };
-  } catch (error) {
-    console.error('Error refreshing access token', error);
-    return {
-      ...token,
-      error: 'RefreshAccessTokenError',
-    };
-  }
-}
-
 // Determine if we should use MongoDB adapter
 let adapter;
 try {
@@ -100,7 +55,6 @@ try {
 }
 
 // Determine if we're in a Vercel environment
-const isVercelProduction = process.env.VERCEL_URL && process.env.NODE_ENV === 'production';
 const isVercelPreview = process.env.VERCEL_URL && process.env.VERCEL_ENV === 'preview';
 
 export const authOptions: NextAuthOptions = {
@@ -150,8 +104,11 @@ export const authOptions: NextAuthOptions = {
       clientId: process.env.SPOTIFY_CLIENT_ID || 'dummy-client-id',
       clientSecret: process.env.SPOTIFY_CLIENT_SECRET || 'dummy-client-secret',
       authorization: {
+        url: `${SPOTIFY_ACCOUNTS_BASE_URL}/authorize`,
         params: { scope }
-      }
+      },
+      token: `${SPOTIFY_ACCOUNTS_BASE_URL}/api/token`,
+      userinfo: `${SPOTIFY_API_BASE_URL}/v1/me`
     })
   ],
   callbacks: {
@@ -173,9 +130,9 @@ export const authOptions: NextAuthOptions = {
         }
       }
 
-      // Return previous token if the access token has not expired yet
+      // Return previous token if the access token is not about to expire
       const typedToken = token as ExtendedJWT;
-      if (typedToken.accessTokenExpires && Date.now() < typedToken.accessTokenExpires) {
+      if (!needsRefresh(typedToken)) {
         return typedToken;
       }
 
@@ -184,7 +141,14 @@ export const authOptions: NextAuthOptions = {
       
       // Only attempt to refresh if we have a refresh token and it's a Spotify account
       if (typedToken.refreshToken && typedToken.user?.id !== 'demo-user') {
-        return refreshAccessToken(typedToken);
+        try {
+          const refreshed = await refreshSpotifyTokens(typedToken.user?.id, typedToken);
+          console.log('Token refreshed successfully');
+          return { ...typedToken, ...refreshed, error: undefined };
+        } catch (error) {
+          console.error('Error refreshing access token', error);
+          return { ...typedToken, error: REFRESH_ERROR };
+        }
       }
       
       // For demo user or if no refresh token, just return the token as is
@@ -197,10 +161,8 @@ export const authOptions: NextAuthOptions = {
       // Add access token to session
       typedSession.accessToken = typedToken.accessToken || '';
       
-      // Pass any error to the client
-      if (typedToken.error) {
-        typedSession.error = typedToken.error;
-      }
+      // Pass any error to the client (cleared again after a successful refresh)
+      typedSession.error = typedToken.error;
       
       // Only update user properties if they exist in the token
       if (typedToken.user) {
@@ -248,17 +210,17 @@ export const authOptions: NextAuthOptions = {
     strategy: 'jwt',
     maxAge: 30 * 24 * 60 * 60, // 30 days
   },
-  secret: process.env.NEXTAUTH_SECRET || 'a-default-secret-for-development-only',
+  secret: AUTH_SECRET,
   // Optimized for Vercel deployment
-  useSecureCookies: isVercelProduction || process.env.NODE_ENV === 'production',
+  useSecureCookies: USE_SECURE_COOKIES,
   cookies: {
     sessionToken: {
-      name: `${isVercelProduction || process.env.NODE_ENV === 'production' ? '__Secure-' : ''}next-auth.session-token`,
+      name: `${USE_SECURE_COOKIES ? '__Secure-' : ''}next-auth.session-token`,
       options: {
         httpOnly: true,
         sameSite: 'lax',
         path: '/',
-        secure: isVercelProduction || process.env.NODE_ENV === 'production'
+        secure: USE_SECURE_COOKIES
       }
     }
   },
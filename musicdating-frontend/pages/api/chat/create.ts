@@ -0,0 +1,127 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { getPairKey, MatchDocument } from '../../../lib/matches'
+import { isActive, MatchTransitionError, transitionMatch } from '../../../lib/matchLifecycle'
+import { findActiveMoment, findVisibleMomentUsers } from '../../../lib/musicMoments'
+import { getMomentSettings, isSharingMoments } from '../../../lib/momentSettings'
+import { endsWithTrack, findPairConversation, openMomentConversation } from '../../../lib/conversations'
+import { consumeRateLimit, RateLimit } from '../../../lib/rateLimit'
+import { getBlockedUserIds } from '../../../lib/swipes'
+import { UserDocument } from '../../../types/user'
+
+// Conversations a user may open (or revive with a new track) from moments
+// per window; reopening one that already ends with the track is free
+const CREATE_LIMIT: RateLimit = { limit: 10, windowMs: 60 * 60 * 1000 } // 10 per hour
+
+// POST { momentId, trackId } opens a conversation with the moment's user,
+// seeded with the track, or reuses the pair's existing one. Matched users
+// can always connect; otherwise both have to be sharing their moments and
+// the moment has to be one the caller could see in their feed. A pair whose
+// match was unmatched or blocked can't reconnect through moments.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ message: 'User not found' })
+  }
+
+  const momentId = toObjectId(req.body?.momentId)
+  const trackId = req.body?.trackId
+  if (!momentId || typeof trackId !== 'string') {
+    return res.status(400).json({ message: 'momentId and trackId are required' })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+
+    const moment = await findActiveMoment(db, momentId)
+    if (!moment) {
+      return res.status(404).json({ message: 'Moment not found' })
+    }
+    if (moment.trackId !== trackId) {
+      return res.status(409).json({ message: 'The moment has moved on to another track' })
+    }
+    const otherId = moment.userId
+    if (otherId.equals(userId)) {
+      return res.status(400).json({ message: 'Cannot connect with yourself' })
+    }
+
+    const [user, other, blockedIds, match] = await Promise.all([
+      db.collection('users').findOne({ _id: userId }) as Promise<UserDocument | null>,
+      db.collection('users').findOne({ _id: otherId }) as Promise<UserDocument | null>,
+      getBlockedUserIds(db, userId),
+      db.collection('matches').findOne({ pairKey: getPairKey(userId, otherId) }) as Promise<MatchDocument | null>
+    ])
+    if (!user || !other) {
+      return res.status(404).json({ message: 'User not found' })
+    }
+    if (blockedIds.some(id => id.equals(otherId)) || match?.status === 'unmatched' || match?.status === 'blocked') {
+      return res.status(403).json({ message: 'Cannot connect with this user' })
+    }
+
+    // Pending and expired matches connect like strangers
+    const activeMatch = match && isActive(match.status) ? match : null
+    if (!activeMatch) {
+      if (!isSharingMoments(getMomentSettings(user)) || !isSharingMoments(getMomentSettings(other))) {
+        return res.status(403).json({ message: 'Both users need to share their Music Moments to connect' })
+      }
+      const visible = await findVisibleMomentUsers(db, user, [otherId], [])
+      if (!visible.has(otherId.toString())) {
+        return res.status(403).json({ message: 'Cannot connect with this user' })
+      }
+    }
+
+    const existing = await findPairConversation(db, userId, otherId)
+    if (!existing || !endsWithTrack(existing, moment.trackId)) {
+      const rateLimit = await consumeRateLimit(db, `chat-create:${userId}`, CREATE_LIMIT)
+      if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000))
+        return res.status(429).json({ message: 'Too many conversations started, try again later' })
+      }
+    }
+
+    const { conversation, created } = await openMomentConversation(
+      db,
+      userId,
+      otherId,
+      {
+        id: moment.trackId,
+        name: moment.trackName,
+        artist: moment.artistName,
+        artistId: moment.artistId ?? '',
+        albumArt: moment.albumArt
+      },
+      { momentId, matchId: activeMatch?._id ?? null }
+    )
+
+    if (activeMatch?.status === 'mutual') {
+      try {
+        await transitionMatch(db, activeMatch._id!, 'conversation-started', userId)
+      } catch (error) {
+        // Moved on concurrently (started by the other user, or ended)
+        if (!(error instanceof MatchTransitionError)) throw error
+      }
+    }
+
+    return res.status(created ? 201 : 200).json({
+      conversationId: conversation._id,
+      matchId: conversation.matchId,
+      created
+    })
+  } catch (error) {
+    console.error('Error creating conversation:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { importListeningHistory, rebuildProfileFromHistory } from '../../../lib/listeningHistoryImport'
+import { parseScrobbles, toImportedPlays } from '../../../lib/scrobbleSource'
+import { getSpotifyApi, SpotifyAuthError, SpotifyNotLinkedError } from '../../../lib/spotifyTokens'
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '25mb'
+    }
+  }
+}
+
+// POST { content, format? } with the text of a Last.fm CSV or ListenBrainz
+// JSON export. The scrobbles are stored with the rest of the user's
+// listening history and the profile is rebuilt from all of it, so listeners
+// who don't use Spotify can still be matched.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ message: 'User not found' })
+  }
+
+  const { content, format } = req.body || {}
+  if (typeof content !== 'string') {
+    return res.status(400).json({ message: 'content must be the text of the export file' })
+  }
+  if (format !== undefined && format !== 'lastfm' && format !== 'listenbrainz') {
+    return res.status(400).json({ message: 'format must be lastfm or listenbrainz' })
+  }
+
+  const plays = parseScrobbles(content, format)
+  if (typeof plays === 'string') {
+    return res.status(400).json({ message: plays })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+    // Spotify only helps look up artists; without it they come from artistCache
+    const spotifyApi = await getSpotifyApi(req).catch(error => {
+      if (error instanceof SpotifyNotLinkedError || error instanceof SpotifyAuthError) return null
+      throw error
+    })
+
+    const { imported, duplicates } = await importListeningHistory(db, userId, toImportedPlays(plays))
+    const { historyImport } = await rebuildProfileFromHistory(db, spotifyApi, userId, { source: 'scrobbles' })
+
+    return res.status(200).json({ imported, duplicates, ...historyImport })
+  } catch (error) {
+    console.error('Error importing scrobbles:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
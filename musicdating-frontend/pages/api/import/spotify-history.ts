@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import {
+  importListeningHistory,
+  parseStreamingHistory,
+  rebuildProfileFromHistory
+} from '../../../lib/listeningHistoryImport'
+import { getSpotifyApi, sendSpotifyAuthError } from '../../../lib/spotifyTokens'
+
+// Export files are split at roughly 12MB each
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '25mb'
+    }
+  }
+}
+
+// POST takes the parsed contents of one Streaming_History_Audio_*.json file
+// from Spotify's extended streaming history export. Upload files one at a
+// time; each upload adds to what is stored and rebuilds the profile.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ message: 'User not found' })
+  }
+
+  const parsed = parseStreamingHistory(req.body)
+  if (typeof parsed === 'string') {
+    return res.status(400).json({ message: parsed })
+  }
+
+  try {
+    // Needed to look up artists, so fail before storing anything
+    const spotifyApi = await getSpotifyApi(req)
+    const { db } = await connectToDatabase()
+
+    const { imported, duplicates } = await importListeningHistory(db, userId, parsed.plays)
+    const { historyImport } = await rebuildProfileFromHistory(db, spotifyApi, userId)
+
+    return res.status(200).json({
+      imported,
+      duplicates,
+      ignored: parsed.ignored,
+      ...historyImport
+    })
+  } catch (error) {
+    if (sendSpotifyAuthError(res, error)) return
+    console.error('Error importing listening history:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { connectToDatabase } from '../../../lib/database'
+import { isAuthorizedJobRequest } from '../../../lib/jobAuth'
+import { refreshCandidatePools } from '../../../lib/candidatePools'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const batchSize = parseInt(req.query.batchSize as string, 10) || undefined
+
+  try {
+    const { db } = await connectToDatabase()
+    const result = await refreshCandidatePools(db, { batchSize })
+    return res.status(200).json(result)
+  } catch (error) {
+    console.error('Error refreshing candidate pools:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { connectToDatabase } from '../../../lib/database'
+import { isAuthorizedJobRequest } from '../../../lib/jobAuth'
+import { expireStaleMatches } from '../../../lib/matchLifecycle'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+    const expired = await expireStaleMatches(db)
+    return res.status(200).json({ expired })
+  } catch (error) {
+    console.error('Error expiring matches:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
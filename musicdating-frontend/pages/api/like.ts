@@ -0,0 +1,3 @@
+import { createSwipeHandler } from '../../lib/swipeHandler'
+
+export default createSwipeHandler('like')
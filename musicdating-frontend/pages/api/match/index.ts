@@ -1,44 +1,21 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { MongoClient, ObjectId } from 'mongodb'
 import { getSession } from 'next-auth/react'
-
-const MONGODB_URI = process.env.MONGODB_URI!
-const MONGODB_DB = process.env.MONGODB_DB!
-
-if (!MONGODB_URI) {
-  throw new Error('Define the MONGODB_URI environmental variable')
-}
-
-if (!MONGODB_DB) {
-  throw new Error('Define the MONGODB_DB environmental variable')
-}
-
-// Define User interface
-interface User {
-  _id: ObjectId
-  playlistId?: string
-  photoUrl?: string
-  musicFeatures?: any
-  photoFeatures?: any
-  [key: string]: any // For other properties
-}
-
-let cachedClient: MongoClient | null = null
-let cachedDb: any = null
-
-async function connectToDatabase() {
-  if (cachedClient && cachedDb) {
-    return { client: cachedClient, db: cachedDb }
-  }
-
-  const client = await MongoClient.connect(MONGODB_URI)
-  const db = client.db(MONGODB_DB)
-
-  cachedClient = client
-  cachedDb = db
-
-  return { client, db }
-}
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { getExcludedUserIds, markSeen } from '../../../lib/swipes'
+import { UserDocument } from '../../../types/user'
+import { formatCandidate } from '../../../lib/candidateSearch'
+import {
+  computeCandidatePool,
+  createPoolCursor,
+  getCandidatePool,
+  getPoolPage,
+  isPoolFresh,
+  ON_DEMAND_SCAN_LIMIT,
+  parsePoolCursor
+} from '../../../lib/candidatePools'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50
 
 export default async function handler(
   req: NextApiRequest,
@@ -53,65 +30,74 @@ export default async function handler(
     return res.status(401).json({ message: 'Unauthorized' })
   }
 
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ message: 'User not found' })
+  }
+
+  // Cursors are "pool.<computedAt>.<index>" positions in the user's pool
+  const cursor = req.query.cursor as string | undefined
+  if (cursor && !parsePoolCursor(cursor)) {
+    return res.status(400).json({ message: 'Invalid cursor' })
+  }
+  const limit = Math.min(
+    parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE
+  )
+
   try {
     const { db } = await connectToDatabase()
-    const userId = new ObjectId(req.query.userId as string)
     
     // Get user's profile
-    const user = await db.collection('users').findOne({ _id: userId }) as User
+    const user = await db.collection('users').findOne({ _id: userId }) as UserDocument
     if (!user) {
       return res.status(404).json({ message: 'User not found' })
     }
 
-    // Find potential matches
-    const matches = await db.collection('users')
-      .find({
-        _id: { $ne: userId },
-        // Add any additional filtering criteria
-      })
-      .limit(20)
-      .toArray() as User[]
+    // Without any music data every score would be zero
+    if (!user.musicProfile && !user.playlistProfile) {
+      return res.status(200).json({ matches: [], nextCursor: null, needsOnboarding: true })
+    }
+
+    // A stale or missing pool is computed now from a bounded scan, ranked as
+    // a whole rather than page by page so the best candidates come first
+    const stored = await getCandidatePool(db, userId)
+    const computeNow = () => computeCandidatePool(db, user, { scanLimit: ON_DEMAND_SCAN_LIMIT })
+    const computed = !(stored && isPoolFresh(stored))
+    let pool = computed ? await computeNow() : stored!
+
+    // Drop anyone swiped since the pool was built
+    const getPage = async (from: string | undefined) => {
+      const excludedIds = await getExcludedUserIds(db, userId, pool.candidates.map(entry => entry.userId))
+      return getPoolPage(pool, excludedIds, from, limit)
+    }
+    let page = await getPage(cursor)
+    if (page.entries.length === 0 && !computed) {
+      // The pool is used up. Everything served from it is in the ledger by
+      // now, so a new one continues with candidates not seen yet.
+      pool = await computeNow()
+      page = await getPage(undefined)
+    }
+
+    const candidates = await db.collection('users')
+      .find({ _id: { $in: page.entries.map(entry => entry.userId) } })
+      .toArray() as UserDocument[]
+    const candidatesById = new Map(candidates.map(candidate => [candidate._id.toString(), candidate]))
 
-    // Calculate match scores
-    const scoredMatches = matches.map((match: User) => ({
-      ...match,
-      score: calculateMatchScore(user, match),
-    }))
+    const matches = page.entries
+      .filter(entry => candidatesById.has(entry.userId.toString()))
+      .map(entry => formatCandidate(candidatesById.get(entry.userId.toString())!, entry))
 
-    // Sort by score and return
-    const sortedMatches = scoredMatches
-      .sort((a, b) => b.score - a.score)
-      .map(match => ({
-        id: match._id,
-        playlistId: match.playlistId,
-        photoUrl: match.photoUrl,
-        score: match.score,
-      }))
+    // Past the end of a non-empty page, ask for more anyway: the next
+    // request computes a new pool, and only an empty one ends the deck
+    const nextCursor = page.nextCursor ??
+      (page.entries.length > 0 ? createPoolCursor(pool, pool.candidates.length) : null)
 
-    res.status(200).json(sortedMatches)
+    await markSeen(db, userId, matches.map(match => match.id))
+
+    res.status(200).json({ matches, nextCursor })
   } catch (error) {
     console.error(error)
     res.status(500).json({ message: 'Internal server error' })
   }
 }
-
-function calculateMatchScore(user1: User, user2: User) {
-  // Implement your matching algorithm here
-  // This is a simplified version
-  const musicScore = calculateMusicCompatibility(user1.musicFeatures, user2.musicFeatures)
-  const photoScore = calculatePhotoCompatibility(user1.photoFeatures, user2.photoFeatures)
-  
-  return 0.6 * photoScore + 0.4 * musicScore
-}
-
-function calculateMusicCompatibility(features1: any, features2: any): number {
-  // Implement music compatibility algorithm
-  // For now, return a random score between 0 and 1
-  return Math.random();
-}
-
-function calculatePhotoCompatibility(features1: any, features2: any): number {
-  // Implement photo compatibility algorithm
-  // For now, return a random score between 0 and 1
-  return Math.random();
-}
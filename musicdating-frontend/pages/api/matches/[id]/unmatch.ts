@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../../lib/database'
+import { MatchDocument } from '../../../../lib/matches'
+import { MatchTransitionError, transitionMatch } from '../../../../lib/matchLifecycle'
+import { recordSwipe } from '../../../../lib/swipes'
+
+// POST { block?: boolean } ends a match. Blocking also writes a block entry
+// to the swipe ledger so neither user is shown to the other again.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  const matchId = toObjectId(req.query.id)
+  if (!userId || !matchId) {
+    return res.status(404).json({ message: 'Match not found' })
+  }
+
+  const block = req.body?.block === true
+
+  try {
+    const { db } = await connectToDatabase()
+
+    const match = await db.collection('matches').findOne({ _id: matchId, users: userId }) as MatchDocument | null
+    if (!match) {
+      return res.status(404).json({ message: 'Match not found' })
+    }
+
+    const updated = await transitionMatch(db, matchId, block ? 'blocked' : 'unmatched', userId)
+
+    if (block) {
+      const otherId = match.users.find(id => !id.equals(userId))!
+      await recordSwipe(db, userId, otherId, 'block')
+    }
+
+    return res.status(200).json({ id: matchId, status: updated.status })
+  } catch (error) {
+    if (error instanceof MatchTransitionError) {
+      return res.status(409).json({ message: error.message, status: error.from })
+    }
+    console.error('Error ending match:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { isAuthorizedJobRequest } from '../../../lib/jobAuth'
+import { spotifyGateway } from '../../../lib/spotifyGateway'
+
+// Throttling metrics for the Spotify gateway. Counters live in memory, so
+// each server instance reports its own since it started (or was reset);
+// availableTokens is read from the bucket all instances share.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  if (req.method === 'GET') {
+    try {
+      return res.status(200).json(await spotifyGateway.getMetrics())
+    } catch (error) {
+      console.error('Error reading Spotify gateway metrics:', error)
+      return res.status(500).json({ message: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    spotifyGateway.resetMetrics()
+    return res.status(204).end()
+  }
+
+  return res.status(405).json({ message: 'Method not allowed' })
+}
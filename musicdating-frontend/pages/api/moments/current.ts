@@ -1,98 +1,88 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getSession } from 'next-auth/react'
-import { getSpotifyApi } from '../../../lib/spotify'
-import clientPromise from '../../../lib/mongodb'
-import { ObjectId } from 'mongodb'
+import { getSpotifyApi, sendSpotifyAuthError, SpotifyNotLinkedError } from '../../../lib/spotifyTokens'
+import { spotifyGateway } from '../../../lib/spotifyGateway'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { endMoment, getRecentMoments, MomentTrack, SharedVisibility, updateMoment } from '../../../lib/musicMoments'
+import { getMomentSettings, getSharingBlock } from '../../../lib/momentSettings'
+import { getCachedArtists } from '../../../lib/spotifyCache'
+import { UserDocument } from '../../../types/user'
 
+// GET returns the current feed without touching Spotify: moments from nearby
+// users who fit the caller's preferences, closest taste first. POST refreshes
+// the caller's own moment from their Spotify playback and returns their track,
+// with whether it was shared: moment settings can keep it private. Users
+// without Spotify (e.g. the demo account) just have nothing playing.
+// Feed changes are pushed to /api/moments/stream subscribers.
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
   const session = await getSession({ req })
   if (!session) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
 
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ error: 'User not found' })
+  }
+
   try {
-    const spotify = await getSpotifyApi(session)
-    const client = await clientPromise
-    const db = client.db(process.env.MONGODB_DB)
-    
-    // Get user's current track
-    const playing = await spotify.getMyCurrentPlayingTrack()
-    
-    if (playing.body && playing.body.item && 'artists' in playing.body.item && 'album' in playing.body.item) {
-      const track = playing.body.item
-      
-      // Update user's current track in DB
-      await db.collection('musicMoments').updateOne(
-        { userId: session.user.id },
-        {
-          $set: {
-            trackId: track.id,
-            trackName: track.name,
-            artistName: track.artists[0].name,
-            albumArt: track.album.images[0].url,
-            timestamp: new Date()
-          }
-        },
-        { upsert: true }
-      )
+    const { db } = await connectToDatabase()
+
+    const user = await db.collection('users').findOne({ _id: userId }) as UserDocument | null
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' })
     }
 
-    // Get other users' current tracks (last 15 minutes)
-    const recentMoments = await db.collection('musicMoments')
-      .aggregate([
-        {
-          $match: {
-            timestamp: {
-              $gte: new Date(Date.now() - 15 * 60 * 1000)
-            },
-            userId: {
-              $ne: session.user.id
-            }
-          }
-        },
-        {
-          $lookup: {
-            from: 'users',
-            localField: 'userId',
-            foreignField: '_id',
-            as: 'userInfo'
-          }
-        },
-        {
-          $unwind: '$userInfo'
-        },
-        {
-          $sort: {
-            timestamp: -1
-          }
-        },
-        {
-          $limit: 20
-        }
-      ])
-      .toArray()
+    if (req.method === 'GET') {
+      return res.status(200).json(await getRecentMoments(db, user))
+    }
 
-    // Format response
-    const moments = recentMoments.map(moment => ({
-      id: moment._id.toString(),
-      userId: moment.userId,
-      userName: moment.userInfo.name,
-      userPhoto: moment.userInfo.image,
-      track: {
-        id: moment.trackId,
-        name: moment.trackName,
-        artist: moment.artistName,
-        albumArt: moment.albumArt
-      },
-      timestamp: moment.timestamp,
-      listeners: 1 // TODO: Count users listening to same track
-    }))
+    let spotify
+    try {
+      spotify = await getSpotifyApi(req)
+    } catch (error) {
+      if (!(error instanceof SpotifyNotLinkedError)) throw error
+      return res.status(200).json({ track: null, shared: false, reason: 'no-spotify' })
+    }
+    const playing = await spotifyGateway.call('getMyCurrentPlayingTrack', () => spotify.getMyCurrentPlayingTrack())
+
+    // Nothing on (Spotify answers with an empty body) or a podcast episode
+    if (!playing?.item || !('artists' in playing.item && 'album' in playing.item)) {
+      await endMoment(db, userId)
+      return res.status(200).json({ track: null, shared: false, reason: null })
+    }
+
+    const track: MomentTrack = {
+      id: playing.item.id,
+      name: playing.item.name,
+      artist: playing.item.artists[0].name,
+      artistId: playing.item.artists[0].id,
+      albumArt: playing.item.album.images[0]?.url || ''
+    }
+
+    // Genres take an artist lookup, so they're only fetched when some are hidden
+    const settings = getMomentSettings(user)
+    const genres = settings.hiddenGenres.length > 0
+      ? (await getCachedArtists(db, spotify, [track.artistId])).get(track.artistId)?.genres
+      : []
+    const reason = getSharingBlock(settings, track, genres)
+    if (reason) {
+      // Also takes down the previous track if that one was shared
+      await endMoment(db, userId)
+      return res.status(200).json({ track, shared: false, reason })
+    }
 
-    return res.status(200).json(moments)
+    await updateMoment(db, user, track, settings.visibility as SharedVisibility)
+    return res.status(200).json({ track, shared: true, reason: null })
   } catch (error) {
+    if (sendSpotifyAuthError(res, error)) return
     console.error('Error fetching music moments:', error)
     return res.status(500).json({ error: 'Failed to fetch music moments' })
   }
@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { deleteMomentHistory, getMomentHistory } from '../../../lib/musicMoments'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50
+
+// GET lists the tracks the caller shared as Music Moments, most recent first
+// (?cursor=&limit=). DELETE ?id= deletes one entry; DELETE without an id
+// clears the whole history. Deleting what's live also takes it down.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ error: 'User not found' })
+  }
+
+  const cursor = req.query.cursor as string | undefined
+  const cursorId = cursor ? toObjectId(cursor) : null
+  if (cursor && !cursorId) {
+    return res.status(400).json({ error: 'Invalid cursor' })
+  }
+  const entry = req.query.id as string | undefined
+  const entryId = entry ? toObjectId(entry) : null
+  if (entry && !entryId) {
+    return res.status(400).json({ error: 'Invalid id' })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+
+    if (req.method === 'DELETE') {
+      const deleted = await deleteMomentHistory(db, userId, entryId ?? undefined)
+      if (entryId && deleted === 0) {
+        return res.status(404).json({ error: 'History entry not found' })
+      }
+      return res.status(200).json({ deleted })
+    }
+
+    const limit = Math.min(
+      parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    )
+    const page = await getMomentHistory(db, userId, { cursor: cursorId ?? undefined, limit })
+    return res.status(200).json({
+      items: page.items.map(item => ({
+        id: item._id.toString(),
+        track: {
+          id: item.trackId,
+          name: item.trackName,
+          artist: item.artistName,
+          artistId: item.artistId,
+          albumArt: item.albumArt
+        },
+        visibility: item.visibility,
+        sharedAt: item.sharedAt.toISOString()
+      })),
+      nextCursor: page.nextCursor
+    })
+  } catch (error) {
+    console.error('Error handling music moment history:', error)
+    const action = req.method === 'DELETE' ? 'delete' : 'fetch'
+    return res.status(500).json({ error: `Failed to ${action} music moment history` })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { getCoListeners } from '../../../lib/musicMoments'
+import { UserDocument } from '../../../types/user'
+
+// Who's listening to a track (?trackId=) or to an artist (?artistId=) right
+// now. Artists without a known ID are looked up by name in artistId.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ error: 'User not found' })
+  }
+
+  const { trackId, artistId } = req.query
+  if (typeof trackId !== 'string' && typeof artistId !== 'string') {
+    return res.status(400).json({ error: 'trackId or artistId is required' })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+    const viewer = await db.collection('users').findOne({ _id: userId }) as UserDocument | null
+    if (!viewer) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    const result = await getCoListeners(db, viewer, {
+      trackId: typeof trackId === 'string' ? trackId : undefined,
+      artistId: typeof artistId === 'string' ? artistId : undefined
+    })
+    return res.status(200).json(result)
+  } catch (error) {
+    console.error('Error fetching co-listeners:', error)
+    return res.status(500).json({ error: 'Failed to fetch listeners' })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { getMomentSettings, isIncognito, validateMomentSettings } from '../../../lib/momentSettings'
+import { endMoment } from '../../../lib/musicMoments'
+import { UserDocument } from '../../../types/user'
+
+// GET returns the caller's Music Moments sharing settings.
+// PUT accepts any of { visibility, incognitoHours, hiddenArtists, hiddenGenres }.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ error: 'User not found' })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+    const user = await db.collection('users').findOne({ _id: userId }) as UserDocument | null
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    let settings = getMomentSettings(user)
+    if (req.method === 'PUT') {
+      const update = validateMomentSettings(settings, req.body || {})
+      if (typeof update === 'string') {
+        return res.status(400).json({ error: update })
+      }
+      settings = update
+      await db.collection('users').updateOne({ _id: userId }, { $set: { momentSettings: settings } })
+      // Take the live moment down so nobody keeps seeing it under the old
+      // settings; the next refresh shares it again if it's still allowed
+      await endMoment(db, userId)
+    }
+
+    return res.status(200).json({ ...settings, incognito: isIncognito(settings) })
+  } catch (error) {
+    console.error('Error updating music moment settings:', error)
+    return res.status(500).json({ error: 'Failed to update music moment settings' })
+  }
+}
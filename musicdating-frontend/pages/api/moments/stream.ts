@@ -0,0 +1,151 @@
+import { Db, ObjectId } from 'mongodb'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { ensureExpirySweep, findVisibleMomentUsers, getRecentMoments } from '../../../lib/musicMoments'
+import { MomentChange, subscribeToMomentEvents } from '../../../lib/momentEvents'
+import { getBlockedUserIds } from '../../../lib/swipes'
+import { getMatchedUserIds } from '../../../lib/matches'
+import { MomentEvent } from '../../../types/moments'
+import { UserDocument } from '../../../types/user'
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_INTERVAL = 25 * 1000
+// How long EventSource waits before reconnecting, e.g. after a serverless
+// function hits its time limit and the stream ends
+const RETRY_MS = 5000
+
+export const config = {
+  api: {
+    responseLimit: false
+  }
+}
+
+// Server-Sent Events feed of Music Moments: a `snapshot` event with the
+// current feed, then `added`, `changed`, `expired` and `listeners` events as
+// it changes
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ error: 'User not found' })
+  }
+
+  // Taste similarity of each user whose moment the viewer currently sees, or
+  // null when it's hidden from them, so a moment that drops out of the feed
+  // can be taken down
+  const visibility = new Map<string, number | null>()
+  let db: Db
+
+  // The viewer's settings, matches and blocks can change while the stream is
+  // open (an unmatch, a new match, a move), so they're read again for each
+  // moment rather than once on connect
+  const loadViewer = async () => {
+    const [viewer, blockedIds, matchedIds] = await Promise.all([
+      db.collection('users').findOne({ _id: userId }) as Promise<UserDocument | null>,
+      getBlockedUserIds(db, userId),
+      getMatchedUserIds(db, userId)
+    ])
+    return { viewer, blockedIds, matchedIds }
+  }
+
+  const send = (event: MomentEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+
+  // Similarity of the moment's user to the viewer, or null when the viewer
+  // may not see it: their own moment, either side of a block, out of range,
+  // outside the viewer's preferences or shared with their matches only
+  const checkVisibility = async (authorId: string): Promise<number | null> => {
+    if (authorId === userId.toString()) return null
+    const { viewer, blockedIds, matchedIds } = await loadViewer()
+    if (!viewer || blockedIds.some(id => id.toString() === authorId)) return null
+    const similarities = await findVisibleMomentUsers(db, viewer, [new ObjectId(authorId)], matchedIds)
+    return similarities.get(authorId) ?? null
+  }
+
+  // Events are published to every stream alike; this narrows one down to
+  // what the viewer may see and adds their similarity to the moment's user
+  const personalize = async (event: MomentChange): Promise<MomentEvent | null> => {
+    if (event.type === 'listeners') return event
+
+    const authorId = 'moment' in event ? event.moment.userId : event.userId
+    const wasVisible = visibility.get(authorId) != null
+    if (event.type === 'expired') {
+      visibility.delete(authorId)
+      // Nothing to take out of a feed the user was never in
+      return wasVisible ? event : null
+    }
+
+    const similarity = await checkVisibility(authorId)
+    visibility.set(authorId, similarity)
+    if (similarity == null) {
+      // Take down a moment the viewer could see until now, e.g. after an unmatch
+      return wasVisible ? { type: 'expired', momentId: event.moment.id, userId: authorId } : null
+    }
+    return { ...event, moment: { ...event.moment, similarity } }
+  }
+
+  // Checks can take a query, so events go through a chain to keep their order
+  let delivery = Promise.resolve()
+  const deliver = (event: MomentChange) => {
+    delivery = delivery
+      .then(async () => {
+        const personalized = await personalize(event)
+        if (personalized) send(personalized)
+      })
+      .catch(error => console.error('Error sending music moment event:', error))
+  }
+
+  // Subscribe before reading the snapshot so nothing published in between is
+  // lost; clients apply events by user, so replaying one twice is harmless
+  let pending: MomentChange[] | null = []
+  const unsubscribe = subscribeToMomentEvents(event => {
+    if (pending) pending.push(event)
+    else deliver(event)
+  })
+
+  let snapshot
+  try {
+    db = (await connectToDatabase()).db
+    const viewer = await db.collection('users').findOne({ _id: userId }) as UserDocument | null
+    if (!viewer) {
+      unsubscribe()
+      return res.status(404).json({ error: 'User not found' })
+    }
+    snapshot = await getRecentMoments(db, viewer)
+    snapshot.forEach(moment => visibility.set(moment.userId, moment.similarity))
+    ensureExpirySweep(db)
+  } catch (error) {
+    unsubscribe()
+    console.error('Error opening music moments stream:', error)
+    return res.status(500).json({ error: 'Failed to fetch music moments' })
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // no-transform stops compression middleware from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+  res.write(`retry: ${RETRY_MS}\n\n`)
+  send({ type: 'snapshot', moments: snapshot })
+  pending.forEach(deliver)
+  pending = null
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL)
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  })
+}
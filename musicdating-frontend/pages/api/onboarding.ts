@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../lib/database'
+import { withTasteTimestamp } from '../../lib/tasteIndex'
+import onboardingConfig from '../../config/onboarding.json'
+import { buildColdStartProfile, validateOnboardingAnswers } from '../../utils/coldStartProfile'
+import { UserDocument } from '../../types/user'
+
+// GET returns the questionnaire options. POST takes OnboardingAnswers and
+// stores the resulting profile, unless the user already has one built from
+// real listening data.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    const { moods, genres, artists, seedTracks } = onboardingConfig
+    return res.status(200).json({
+      moods,
+      genres,
+      artists,
+      seedTracks: seedTracks.map(({ id, name, artist }) => ({ id, name, artist }))
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ message: 'User not found' })
+  }
+
+  const answers = validateOnboardingAnswers(req.body)
+  if (typeof answers === 'string') {
+    return res.status(400).json({ message: answers })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+
+    const user = await db.collection('users').findOne(
+      { _id: userId },
+      { projection: { musicProfileSource: 1 } }
+    ) as UserDocument | null
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' })
+    }
+    if (user.musicProfileSource && user.musicProfileSource !== 'questionnaire') {
+      return res.status(409).json({ message: 'Profile already built from listening history' })
+    }
+
+    const { musicProfile, playlistProfile } = buildColdStartProfile(answers)
+    await db.collection('users').updateOne(
+      { _id: userId },
+      {
+        $set: withTasteTimestamp({
+          musicProfile,
+          playlistProfile,
+          musicProfileSource: 'questionnaire',
+          onboarding: answers
+        })
+      }
+    )
+
+    return res.status(200).json({ musicProfile, playlistProfile })
+  } catch (error) {
+    console.error('Error saving onboarding answers:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
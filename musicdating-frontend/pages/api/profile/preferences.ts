@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { connectToDatabase, toObjectId } from '../../../lib/database'
+import { getPreferences, parseProfileUpdate } from '../../../lib/matchPreferences'
+import { UserDocument } from '../../../types/user'
+
+// GET returns the caller's match preferences and location.
+// PUT accepts any of { preferences, location: { longitude, latitude }, gender, birthdate }.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const session = await getSession({ req })
+  if (!session) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const userId = toObjectId(session.user.id)
+  if (!userId) {
+    return res.status(404).json({ message: 'User not found' })
+  }
+
+  try {
+    const { db } = await connectToDatabase()
+
+    let user = await db.collection('users').findOne({ _id: userId }) as UserDocument | null
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' })
+    }
+
+    if (req.method === 'PUT') {
+      const update = parseProfileUpdate(req.body || {}, user)
+      if (typeof update === 'string') {
+        return res.status(400).json({ message: update })
+      }
+      await db.collection('users').updateOne({ _id: userId }, { $set: update })
+      user = { ...user, ...update }
+    }
+
+    return res.status(200).json({
+      preferences: getPreferences(user),
+      location: user.location
+        ? { longitude: user.location.coordinates[0], latitude: user.location.coordinates[1] }
+        : null,
+      gender: user.gender || null,
+      birthdate: user.birthdate || null
+    })
+  } catch (error) {
+    console.error('Error updating preferences:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -3,23 +3,56 @@ import { Box, Container, VStack, Image, Text, Button, useToast, Spinner } from '
 import { useSession, signIn } from 'next-auth/react'
 import { useRouter } from 'next/router'
 import axios from 'axios'
-import useSWR from 'swr'
+import useSWRInfinite from 'swr/infinite'
 
 const fetcher = (url: string) => axios.get(url).then(res => res.data)
 
+// Start loading the next page when this many cards are left in the deck
+const PREFETCH_THRESHOLD = 3
+
+interface MatchPage {
+  matches: any[]
+  nextCursor: string | null
+  needsOnboarding?: boolean
+}
+
+const getMatchPageKey = (pageIndex: number, previousPage: MatchPage | null) => {
+  if (previousPage && !previousPage.nextCursor) return null
+  if (pageIndex === 0) return '/api/match'
+  return `/api/match?cursor=${previousPage!.nextCursor}`
+}
+
 export default function Home() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const toast = useToast()
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0)
 
-  const { data: matches, error } = useSWR(
-    session ? '/api/match' : null,
-    fetcher
+  // Served candidates are recorded as seen, so refetching an earlier page
+  // would return different people and shift the deck under the user
+  const { data: pages, error, size, setSize } = useSWRInfinite<MatchPage>(
+    (pageIndex, previousPage) => session ? getMatchPageKey(pageIndex, previousPage) : null,
+    fetcher,
+    { revalidateFirstPage: false, revalidateOnFocus: false }
   )
 
+  const matches = pages?.flatMap(page => page.matches)
+  const hasMore = Boolean(pages?.[pages.length - 1]?.nextCursor)
   const currentMatch = matches?.[currentMatchIndex]
 
+  useEffect(() => {
+    if (pages?.[0]?.needsOnboarding) {
+      router.push('/onboarding')
+    }
+  }, [pages, router])
+
+  useEffect(() => {
+    if (!matches || !hasMore || size > (pages?.length ?? 0)) return
+    if (matches.length - currentMatchIndex <= PREFETCH_THRESHOLD) {
+      setSize(size + 1)
+    }
+  }, [matches, hasMore, currentMatchIndex, size, pages, setSize])
+
   if (status === 'loading') {
     return (
       <Container centerContent py={20}>
@@ -61,15 +94,31 @@ export default function Home() {
 
   const handleLike = async () => {
     try {
-      await axios.post('/api/like', { matchId: currentMatch.id })
-      toast({
+      const { data } = await axios.post('/api/like', { targetId: currentMatch.id })
+      toast(data.matched ? {
+        title: "It's a match! 🎉",
+        description: 'You both liked each other',
+        status: 'success',
+        duration: 5000,
+        isClosable: true,
+      } : {
         title: 'Like sent!',
         status: 'success',
         duration: 3000,
         isClosable: true,
       })
-      setCurrentMatchIndex(prev => (prev + 1) % matches.length)
+      setCurrentMatchIndex(prev => prev + 1)
     } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        toast({
+          title: 'You can no longer match with this person',
+          status: 'info',
+          duration: 3000,
+          isClosable: true,
+        })
+        setCurrentMatchIndex(prev => prev + 1)
+        return
+      }
       toast({
         title: 'Error',
         description: 'Could not send like',
@@ -80,8 +129,14 @@ export default function Home() {
     }
   }
 
-  const handleSkip = () => {
-    setCurrentMatchIndex(prev => (prev + 1) % matches.length)
+  const handleSkip = async () => {
+    setCurrentMatchIndex(prev => prev + 1)
+    try {
+      await axios.post('/api/pass', { targetId: currentMatch.id })
+    } catch (error) {
+      // The candidate is already marked as seen, so a failed pass is harmless
+      console.error('Error recording pass:', error)
+    }
   }
 
   return (
@@ -97,6 +152,8 @@ export default function Home() {
             <Box>
               {/* Match display and interaction UI */}
             </Box>
+          ) : hasMore ? (
+            <Spinner />
           ) : (
             <Text>No matches found. Check back later!</Text>
           )
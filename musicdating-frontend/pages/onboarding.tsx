@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import {
+  Box,
+  Container,
+  VStack,
+  HStack,
+  Wrap,
+  WrapItem,
+  Text,
+  Button,
+  Spinner,
+  useToast
+} from '@chakra-ui/react'
+import { useRouter } from 'next/router'
+import axios from 'axios'
+import useSWR from 'swr'
+import { Mood, OnboardingAnswers } from '../utils/coldStartProfile'
+import HistoryImport from '../components/HistoryImport'
+
+const fetcher = (url: string) => axios.get(url).then(res => res.data)
+
+interface OnboardingOptions {
+  moods: Mood[]
+  genres: string[]
+  artists: { id: string; name: string; genres: string[] }[]
+  seedTracks: { id: string; name: string; artist: string }[]
+}
+
+const toggle = <T,>(list: T[], item: T) =>
+  list.includes(item) ? list.filter(value => value !== item) : [...list, item]
+
+export default function Onboarding() {
+  const router = useRouter()
+  const toast = useToast()
+  const { data: options, error } = useSWR<OnboardingOptions>('/api/onboarding', fetcher)
+  const [artistIds, setArtistIds] = useState<string[]>([])
+  const [genres, setGenres] = useState<string[]>([])
+  const [moods, setMoods] = useState<Mood[]>([])
+  const [ratings, setRatings] = useState<Record<string, number>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  if (error) {
+    return (
+      <Container centerContent py={20}>
+        <Text>Could not load the questionnaire</Text>
+      </Container>
+    )
+  }
+
+  if (!options) {
+    return (
+      <Container centerContent py={20}>
+        <Spinner size="xl" color="green.500" />
+      </Container>
+    )
+  }
+
+  const handleSubmit = async () => {
+    const answers: OnboardingAnswers = {
+      // Keep the order artists were picked in, first pick is the favourite
+      artists: artistIds.map(id => options.artists.find(artist => artist.id === id)!),
+      genres,
+      moods,
+      seedRatings: Object.entries(ratings).map(([trackId, rating]) => ({ trackId, rating }))
+    }
+
+    setIsSaving(true)
+    try {
+      await axios.post('/api/onboarding', answers)
+      router.push('/')
+    } catch (error: any) {
+      toast({
+        title: 'Could not save your answers',
+        description: error.response?.data?.message || 'Please try again',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Container maxW="container.md" py={10}>
+      <VStack spacing={8} align="stretch">
+        <Text fontSize="3xl" fontWeight="bold">
+          Tell us what you love
+        </Text>
+
+        <HistoryImport onImported={() => router.push('/')} />
+        <HistoryImport source="scrobbles" onImported={() => router.push('/')} />
+
+        <Box>
+          <Text fontWeight="bold" mb={3}>Artists you can't live without</Text>
+          <Wrap>
+            {options.artists.map(artist => (
+              <WrapItem key={artist.id}>
+                <Button
+                  size="sm"
+                  borderRadius="full"
+                  colorScheme="green"
+                  variant={artistIds.includes(artist.id) ? 'solid' : 'outline'}
+                  onClick={() => setArtistIds(toggle(artistIds, artist.id))}
+                >
+                  {artist.name}
+                </Button>
+              </WrapItem>
+            ))}
+          </Wrap>
+        </Box>
+
+        <Box>
+          <Text fontWeight="bold" mb={3}>Genres</Text>
+          <Wrap>
+            {options.genres.map(genre => (
+              <WrapItem key={genre}>
+                <Button
+                  size="sm"
+                  borderRadius="full"
+                  colorScheme="purple"
+                  variant={genres.includes(genre) ? 'solid' : 'outline'}
+                  onClick={() => setGenres(toggle(genres, genre))}
+                >
+                  {genre}
+                </Button>
+              </WrapItem>
+            ))}
+          </Wrap>
+        </Box>
+
+        <Box>
+          <Text fontWeight="bold" mb={3}>Your usual mood</Text>
+          <Wrap>
+            {options.moods.map(mood => (
+              <WrapItem key={mood}>
+                <Button
+                  size="sm"
+                  borderRadius="full"
+                  colorScheme="blue"
+                  variant={moods.includes(mood) ? 'solid' : 'outline'}
+                  onClick={() => setMoods(toggle(moods, mood))}
+                >
+                  {mood}
+                </Button>
+              </WrapItem>
+            ))}
+          </Wrap>
+        </Box>
+
+        <Box>
+          <Text fontWeight="bold" mb={3}>Rate a few tracks</Text>
+          <VStack spacing={3} align="stretch">
+            {options.seedTracks.map(track => (
+              <HStack key={track.id} justify="space-between">
+                <VStack align="start" spacing={0}>
+                  <Text fontSize="sm">{track.name}</Text>
+                  <Text fontSize="xs" color="gray.400">{track.artist}</Text>
+                </VStack>
+                <HStack spacing={1}>
+                  {[1, 2, 3, 4, 5].map(rating => (
+                    <Button
+                      key={rating}
+                      size="xs"
+                      colorScheme="green"
+                      variant={ratings[track.id] === rating ? 'solid' : 'ghost'}
+                      onClick={() => setRatings({ ...ratings, [track.id]: rating })}
+                    >
+                      {rating}
+                    </Button>
+                  ))}
+                </HStack>
+              </HStack>
+            ))}
+          </VStack>
+        </Box>
+
+        <Button
+          colorScheme="green"
+          size="lg"
+          onClick={handleSubmit}
+          isLoading={isSaving}
+          isDisabled={artistIds.length + genres.length + Object.keys(ratings).length === 0}
+        >
+          Find my matches
+        </Button>
+      </VStack>
+    </Container>
+  )
+}
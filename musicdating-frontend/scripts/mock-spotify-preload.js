@@ -0,0 +1,26 @@
+/**
+ * Preloaded into the Next.js dev server by `npm run dev:mock` to point it at
+ * scripts/mock-spotify-server.js.
+ *
+ * spotify-web-api-node has no public option for its Web API host, so this
+ * wraps its internal request builder. That is only acceptable against the
+ * mock: the app itself never touches the library's internals.
+ */
+
+const MOCK_URL = `http://localhost:${Number(process.env.MOCK_SPOTIFY_PORT) || 4010}`;
+
+// Next.js doesn't override variables that are already set, so these win
+// over .env.local
+process.env.SPOTIFY_API_BASE_URL = process.env.SPOTIFY_API_BASE_URL || MOCK_URL;
+process.env.SPOTIFY_ACCOUNTS_BASE_URL = process.env.SPOTIFY_ACCOUNTS_BASE_URL || MOCK_URL;
+
+const url = new URL(process.env.SPOTIFY_API_BASE_URL);
+const scheme = url.protocol.replace(':', '');
+const port = url.port ? Number(url.port) : scheme === 'https' ? 443 : 80;
+
+const webApiRequest = require('spotify-web-api-node/src/webapi-request');
+const defaultBuilder = webApiRequest.builder;
+webApiRequest.builder = accessToken =>
+  defaultBuilder(accessToken).withHost(url.hostname).withPort(port).withScheme(scheme);
+
+console.log(`Spotify Web API requests go to ${url.origin}`);
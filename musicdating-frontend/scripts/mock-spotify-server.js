@@ -0,0 +1,412 @@
+/**
+ * Mock Spotify Server
+ *
+ * A local stand-in for the Spotify accounts service and Web API, backed by
+ * the personas in scripts/fixtures/spotify-personas.json, so the app runs
+ * end to end without network access.
+ *
+ * Run it with: node scripts/mock-spotify-server.js
+ * then start the app with `npm run dev:mock` (scripts/mock-spotify-preload.js)
+ *
+ * Options (environment variables):
+ *   MOCK_SPOTIFY_PORT          port to listen on (default 4010)
+ *   MOCK_SPOTIFY_TOKEN_TTL     access token lifetime in seconds (default 3600),
+ *                              lower it to exercise token refresh
+ *   MOCK_SPOTIFY_THROTTLE_RATE fraction of Web API requests answered with
+ *                              429 + Retry-After (default 0)
+ */
+
+const http = require('http');
+const path = require('path');
+const { URL } = require('url');
+
+const fixtures = require(path.join(__dirname, 'fixtures', 'spotify-personas.json'));
+
+const PORT = Number(process.env.MOCK_SPOTIFY_PORT) || 4010;
+const TOKEN_TTL = Number(process.env.MOCK_SPOTIFY_TOKEN_TTL) || 3600;
+const THROTTLE_RATE = Number(process.env.MOCK_SPOTIFY_THROTTLE_RATE) || 0;
+const BASE_URL = `http://localhost:${PORT}`;
+
+const artistsById = new Map(fixtures.catalog.artists.map(artist => [artist.id, artist]));
+const tracksById = new Map(fixtures.catalog.tracks.map(track => [track.id, track]));
+const tracksWithoutFeatures = new Set(fixtures.catalog.tracksWithoutFeatures);
+
+// Access tokens are "mock-access.<persona>.<expires ms>", refresh tokens
+// "mock-refresh.<persona>", so the server needs no session state
+const accessToken = persona => `mock-access.${persona}.${Date.now() + TOKEN_TTL * 1000}`;
+const refreshToken = persona => `mock-refresh.${persona}`;
+
+function getPersonaFromToken(req) {
+  const match = (req.headers.authorization || '').match(/^Bearer mock-access\.([\w-]+)\.(\d+)$/);
+  if (!match || !fixtures.personas[match[1]]) return { error: 'Invalid access token' };
+  if (Number(match[2]) < Date.now()) return { error: 'The access token expired' };
+  return { name: match[1], persona: fixtures.personas[match[1]] };
+}
+
+// ---- Spotify object shapes -------------------------------------------------
+
+const image = seed => ({ url: `${BASE_URL}/images/${encodeURIComponent(seed)}.svg`, height: 640, width: 640 });
+
+// Placeholder artwork served by this server, so nothing reaches out to an
+// image service: a flat color picked from the seed with its initials
+function placeholderImage(res, seed) {
+  let hash = 0;
+  for (const char of seed) hash = (hash * 31 + char.codePointAt(0)) >>> 0;
+  const initials = seed
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(word => word[0].toUpperCase())
+    .join('')
+    .replace(/[<>&"']/g, '');
+
+  res.writeHead(200, { 'Content-Type': 'image/svg+xml', 'Cache-Control': 'public, max-age=86400' });
+  res.end(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="640" height="640" viewBox="0 0 640 640">' +
+    `<rect width="640" height="640" fill="hsl(${hash % 360}, 55%, 45%)"/>` +
+    '<text x="50%" y="50%" dy="0.35em" text-anchor="middle" font-family="sans-serif" ' +
+    `font-size="240" fill="#fff">${initials}</text></svg>`
+  );
+}
+
+function simplifiedArtist(id) {
+  const artist = artistsById.get(id);
+  return {
+    id,
+    name: artist.name,
+    type: 'artist',
+    uri: `spotify:artist:${id}`,
+    href: `${BASE_URL}/v1/artists/${id}`,
+    external_urls: { spotify: `https://open.spotify.com/artist/${id}` }
+  };
+}
+
+function fullArtist(id) {
+  const artist = artistsById.get(id);
+  if (!artist) return null;
+  return {
+    ...simplifiedArtist(id),
+    genres: artist.genres,
+    popularity: artist.popularity,
+    followers: { href: null, total: artist.popularity * 10000 },
+    images: [image(artist.name)]
+  };
+}
+
+function fullTrack(id) {
+  const track = tracksById.get(id);
+  if (!track) return null;
+  const albumId = `mockAlbum${Buffer.from(track.album).toString('hex').slice(0, 13)}`;
+  return {
+    id,
+    name: track.name,
+    type: 'track',
+    uri: `spotify:track:${id}`,
+    href: `${BASE_URL}/v1/tracks/${id}`,
+    external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+    artists: track.artistIds.map(simplifiedArtist),
+    album: {
+      id: albumId,
+      name: track.album,
+      type: 'album',
+      album_type: 'album',
+      artists: track.artistIds.slice(0, 1).map(simplifiedArtist),
+      images: [image(track.album)],
+      release_date: '2020-01-01',
+      total_tracks: 10,
+      uri: `spotify:album:${albumId}`,
+      href: `${BASE_URL}/v1/albums/${albumId}`
+    },
+    duration_ms: track.durationMs,
+    popularity: track.popularity,
+    explicit: false,
+    is_local: false,
+    preview_url: null,
+    disc_number: 1,
+    track_number: 1
+  };
+}
+
+function audioFeatures(id) {
+  const track = tracksById.get(id);
+  if (!track || tracksWithoutFeatures.has(id)) return null;
+  return {
+    id,
+    type: 'audio_features',
+    uri: `spotify:track:${id}`,
+    ...track.features,
+    key: 5,
+    mode: 1,
+    loudness: -7,
+    speechiness: 0.05,
+    liveness: 0.12,
+    duration_ms: track.durationMs,
+    time_signature: 4
+  };
+}
+
+const localFile = {
+  id: null,
+  name: 'voice memo (local file)',
+  type: 'track',
+  uri: 'spotify:local:::voice+memo:42',
+  is_local: true,
+  artists: [],
+  album: { name: '', images: [] },
+  duration_ms: 42000
+};
+
+const episode = {
+  id: 'mockEpisode00000000001',
+  name: 'Mock Podcast, episode 1',
+  type: 'episode',
+  uri: 'spotify:episode:mockEpisode00000000001',
+  duration_ms: 1800000,
+  images: [image('podcast')],
+  show: { id: 'mockShow0000000000001', name: 'Mock Podcast', publisher: 'Mock' }
+};
+
+function paging(items, url, total = items.length) {
+  const offset = Number(url.searchParams.get('offset')) || 0;
+  const limit = Math.min(Number(url.searchParams.get('limit')) || 20, 100);
+  const page = items.slice(offset, offset + limit);
+  const pageUrl = start => {
+    const next = new URL(url.toString());
+    next.searchParams.set('offset', String(start));
+    next.searchParams.set('limit', String(limit));
+    return `${BASE_URL}${next.pathname}${next.search}`;
+  };
+  return {
+    href: pageUrl(offset),
+    items: page,
+    limit,
+    offset,
+    total,
+    next: offset + limit < total ? pageUrl(offset + limit) : null,
+    previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null
+  };
+}
+
+function playlistItems(playlist) {
+  const items = playlist.trackIds.map(id => ({ added_at: '2024-01-01T00:00:00Z', is_local: false, track: fullTrack(id) }));
+  // Edge cases the analyzer must skip
+  if (playlist.includeLocalFile) items.push({ added_at: '2024-01-02T00:00:00Z', is_local: true, track: localFile });
+  if (playlist.includeEpisode) items.push({ added_at: '2024-01-03T00:00:00Z', is_local: false, track: episode });
+  return items;
+}
+
+function simplifiedPlaylist(playlist, owner) {
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    type: 'playlist',
+    collaborative: false,
+    public: true,
+    images: [image(playlist.name)],
+    owner: { id: owner.profile.id, display_name: owner.profile.displayName, type: 'user' },
+    uri: `spotify:playlist:${playlist.id}`,
+    href: `${BASE_URL}/v1/playlists/${playlist.id}`,
+    tracks: { href: `${BASE_URL}/v1/playlists/${playlist.id}/tracks`, total: playlistItems(playlist).length }
+  };
+}
+
+function findPlaylist(id) {
+  for (const persona of Object.values(fixtures.personas)) {
+    const playlist = persona.playlists.find(candidate => candidate.id === id);
+    if (playlist) return { playlist, owner: persona };
+  }
+  return null;
+}
+
+function playbackState(persona) {
+  if (!persona.nowPlaying) return null;
+  return {
+    is_playing: persona.nowPlaying.isPlaying,
+    progress_ms: persona.nowPlaying.progressMs,
+    timestamp: Date.now(),
+    currently_playing_type: 'track',
+    item: fullTrack(persona.nowPlaying.trackId),
+    context: null,
+    device: { id: 'mock-device', name: 'Mock Speaker', type: 'Speaker', volume_percent: 60, is_active: true },
+    repeat_state: 'off',
+    shuffle_state: false
+  };
+}
+
+// ---- HTTP plumbing -----------------------------------------------------------
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+const apiError = (res, status, message, headers) => send(res, status, { error: { status, message } }, headers);
+
+function readBody(req) {
+  return new Promise(resolve => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+  });
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]));
+}
+
+// GET /authorize: pick a persona instead of logging in
+function authorize(url, res) {
+  const redirectUri = url.searchParams.get('redirect_uri');
+  const state = url.searchParams.get('state');
+  if (!redirectUri) return apiError(res, 400, 'redirect_uri is required');
+
+  const links = Object.entries(fixtures.personas).map(([name, persona]) => {
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', name);
+    if (state) target.searchParams.set('state', state);
+    return `<li><a href="${escapeHtml(target.toString())}">${escapeHtml(persona.profile.displayName)}</a></li>`;
+  });
+
+  res.writeHead(200, { 'Content-Type': 'text/html' });
+  res.end(`<!doctype html><title>Mock Spotify</title><h1>Sign in as</h1><ul>${links.join('')}</ul>`);
+}
+
+// POST /api/token: authorization_code and refresh_token grants
+async function token(req, res) {
+  const params = new URLSearchParams(await readBody(req));
+  let persona;
+
+  if (params.get('grant_type') === 'authorization_code') {
+    persona = params.get('code');
+  } else if (params.get('grant_type') === 'refresh_token') {
+    const match = (params.get('refresh_token') || '').match(/^mock-refresh\.([\w-]+)$/);
+    persona = match && match[1];
+  } else {
+    return send(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  if (!persona || !fixtures.personas[persona]) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'Unknown mock persona' });
+  }
+
+  send(res, 200, {
+    access_token: accessToken(persona),
+    token_type: 'Bearer',
+    scope: params.get('scope') || 'user-read-email',
+    expires_in: TOKEN_TTL,
+    refresh_token: refreshToken(persona)
+  });
+}
+
+const ids = url => (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+
+const routes = [
+  ['/v1/me', ({ persona }) => ({
+    id: persona.profile.id,
+    display_name: persona.profile.displayName,
+    email: persona.profile.email,
+    country: persona.profile.country,
+    product: 'premium',
+    type: 'user',
+    uri: `spotify:user:${persona.profile.id}`,
+    href: `${BASE_URL}/v1/users/${persona.profile.id}`,
+    images: [image(persona.profile.id)],
+    followers: { href: null, total: 12 }
+  })],
+  ['/v1/me/player', ({ persona }) => playbackState(persona)],
+  ['/v1/me/player/currently-playing', ({ persona }) => playbackState(persona)],
+  ['/v1/me/player/recently-played', ({ persona, url }) => {
+    const limit = Math.min(Number(url.searchParams.get('limit')) || 20, 50);
+    return {
+      items: persona.recentlyPlayed.slice(0, limit).map(play => ({
+        track: fullTrack(play.trackId),
+        played_at: new Date(Date.now() - play.hoursAgo * 60 * 60 * 1000).toISOString(),
+        context: null
+      })),
+      limit,
+      next: null,
+      cursors: null
+    };
+  }],
+  ['/v1/me/top/artists', ({ persona, url }) => paging(persona.topArtists.map(fullArtist), url)],
+  ['/v1/me/top/tracks', ({ persona, url }) => paging(persona.topTracks.map(fullTrack), url)],
+  ['/v1/me/playlists', ({ persona, url }) => paging(persona.playlists.map(playlist => simplifiedPlaylist(playlist, persona)), url)],
+  [/^\/v1\/playlists\/([\w-]+)$/, ({ params }) => {
+    const found = findPlaylist(params[0]);
+    return found && { ...simplifiedPlaylist(found.playlist, found.owner), description: '' };
+  }],
+  [/^\/v1\/playlists\/([\w-]+)\/tracks$/, ({ params, url }) => {
+    const found = findPlaylist(params[0]);
+    return found && paging(playlistItems(found.playlist), url);
+  }],
+  ['/v1/tracks', ({ url }) => ({ tracks: ids(url).map(fullTrack) })],
+  [/^\/v1\/tracks\/([\w-]+)$/, ({ params }) => fullTrack(params[0])],
+  ['/v1/artists', ({ url }) => ({ artists: ids(url).map(fullArtist) })],
+  [/^\/v1\/artists\/([\w-]+)$/, ({ params }) => fullArtist(params[0])],
+  ['/v1/audio-features', ({ url }) => ({ audio_features: ids(url).map(audioFeatures) })],
+  [/^\/v1\/audio-features\/([\w-]+)$/, ({ params }) => audioFeatures(params[0])],
+  ['/v1/recommendations', ({ url }) => {
+    const seeds = new Set((url.searchParams.get('seed_tracks') || '').split(',').filter(Boolean));
+    const limit = Number(url.searchParams.get('limit')) || 20;
+    const seedArtists = new Set([...seeds].flatMap(id => (tracksById.get(id) || { artistIds: [] }).artistIds));
+    // Tracks sharing an artist with the seeds first, then the rest of the catalog
+    const ranked = fixtures.catalog.tracks
+      .filter(track => !seeds.has(track.id))
+      .sort((a, b) => Number(b.artistIds.some(id => seedArtists.has(id))) - Number(a.artistIds.some(id => seedArtists.has(id))));
+    return {
+      seeds: [...seeds].map(id => ({ id, type: 'TRACK', href: `${BASE_URL}/v1/tracks/${id}` })),
+      tracks: ranked.slice(0, limit).map(track => fullTrack(track.id))
+    };
+  }]
+];
+
+function matchRoute(pattern, pathname) {
+  if (typeof pattern === 'string') return pattern === pathname ? [] : null;
+  const match = pathname.match(pattern);
+  return match ? match.slice(1) : null;
+}
+
+function webApi(req, res, url) {
+  if (THROTTLE_RATE > 0 && Math.random() < THROTTLE_RATE) {
+    return apiError(res, 429, 'API rate limit exceeded', { 'Retry-After': '1' });
+  }
+
+  const auth = getPersonaFromToken(req);
+  if (auth.error) return apiError(res, 401, auth.error);
+
+  for (const [pattern, handler] of routes) {
+    const params = matchRoute(pattern, url.pathname);
+    if (!params) continue;
+
+    const body = handler({ ...auth, url, params });
+    // The player endpoints answer 204 when nothing is playing
+    if (body === null && url.pathname.startsWith('/v1/me/player')) return send(res, 204);
+    if (body === null || body === undefined) return apiError(res, 404, 'Non existing id');
+    return send(res, 200, body);
+  }
+
+  apiError(res, 404, 'Service not found');
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, BASE_URL);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  if (req.method === 'GET' && url.pathname === '/authorize') return authorize(url, res);
+  if (req.method === 'POST' && url.pathname === '/api/token') {
+    return token(req, res).catch(error => {
+      console.error(error);
+      send(res, 500, { error: 'server_error' });
+    });
+  }
+  if (req.method === 'GET' && url.pathname.startsWith('/v1/')) return webApi(req, res, url);
+  const imageMatch = req.method === 'GET' && url.pathname.match(/^\/images\/(.+)\.svg$/);
+  if (imageMatch) return placeholderImage(res, decodeURIComponent(imageMatch[1]));
+
+  apiError(res, 404, 'Service not found');
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Spotify listening on ${BASE_URL}`);
+  console.log(`Personas: ${Object.keys(fixtures.personas).join(', ')}`);
+});
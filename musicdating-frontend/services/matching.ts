@@ -1,4 +1,5 @@
-import { getSpotifyApi } from '../lib/spotify'
+import { createSpotifyClient } from '../lib/spotify'
+import { spotifyGateway } from '../lib/spotifyGateway'
 import { getSession } from 'next-auth/react'
 
 interface Track {
@@ -35,7 +36,7 @@ export class MatchingService {
       
       // Transform the API response to match our interface
       return data.matches.map((match: any) => ({
-        id: match._id,
+        id: match.id,
         name: match.name || 'Music Match',
         matchScore: match.score || 0.75,
         recentTracks: this.transformTracks(match.tracks || [])
@@ -108,15 +109,16 @@ export class MatchingService {
         throw new Error('User not authenticated')
       }
       
-      const spotifyApi = await getSpotifyApi(session)
+      // Runs in the browser, so it can only use the token the session exposes
+      const spotifyApi = createSpotifyClient(session.accessToken)
       const seedTracks = trackIds.slice(0, 5) // Spotify allows max 5 seed tracks
       
-      const recommendations = await spotifyApi.getRecommendations({
+      const recommendations = await spotifyGateway.call('getRecommendations', () => spotifyApi.getRecommendations({
         seed_tracks: seedTracks,
         limit: 10
-      })
+      }))
       
-      return recommendations.body.tracks.map(track => ({
+      return recommendations.tracks.map(track => ({
         id: track.id,
         name: track.name,
         albumArt: track.album.images[0]?.url || 'https://via.placeholder.com/300'
@@ -0,0 +1,43 @@
+// Someone else playing the same thing right now
+export interface CoListener {
+  userId: string
+  userName: string
+  userPhoto: string
+}
+
+// A user's currently playing track as shown in the Music Moments feed
+export interface MusicMoment {
+  id: string
+  userId: string
+  userName: string
+  userPhoto: string
+  track: {
+    id: string
+    name: string
+    artist: string
+    artistId: string | null // null for moments recorded before artist IDs were kept
+    albumArt: string
+  }
+  timestamp: string // ISO time the track was last seen playing
+  mood?: string
+  activity?: string
+  // Active moments shared with everyone on the same track / by the same
+  // artist; at least 1, as this one is playing too
+  listeners: number
+  artistListeners: number
+  // A few of the other people on the same track the viewer is allowed to
+  // see; empty in stream events, which go to every viewer alike
+  coListeners: CoListener[]
+  // Taste similarity to the viewer, 0-1; the feed is ranked by it
+  similarity: number
+}
+
+// Pushed by /api/moments/stream. `snapshot` is sent once on connect with
+// the whole feed; the rest describe changes to it. `listeners` carries new
+// counts for the tracks and artists whose listeners changed, with artists
+// keyed by ID, or by name when the ID is unknown.
+export type MomentEvent =
+  | { type: 'snapshot'; moments: MusicMoment[] }
+  | { type: 'added' | 'changed'; moment: MusicMoment }
+  | { type: 'expired'; momentId: string; userId: string }
+  | { type: 'listeners'; tracks: Record<string, number>; artists: Record<string, number> }
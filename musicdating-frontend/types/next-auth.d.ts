@@ -4,7 +4,7 @@ import 'next-auth/jwt'
 declare module 'next-auth' {
   interface Session {
     accessToken?: string
-    expires?: number
+    error?: string
     user: {
       id: string
       name?: string
@@ -18,6 +18,13 @@ declare module 'next-auth/jwt' {
   interface JWT {
     accessToken?: string
     refreshToken?: string
-    expiresAt?: number
+    accessTokenExpires?: number
+    error?: string
+    user?: {
+      id: string
+      name?: string | null
+      email?: string | null
+      image?: string | null
+    }
   }
 }
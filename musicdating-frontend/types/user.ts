@@ -0,0 +1,72 @@
+import { ObjectId } from 'mongodb'
+import { Track } from './spotify'
+import { UserMusicProfile } from '../utils/listeningHistoryMatcher'
+import { PlaylistProfile } from '../utils/playlistAnalyzer'
+import { ListenerPersonality } from '../utils/advancedMusicAnalysis'
+
+export interface GeoPoint {
+  type: 'Point'
+  coordinates: [number, number] // [longitude, latitude]
+}
+
+export interface MatchPreferences {
+  maxDistanceKm: number
+  ageRange: {
+    min: number
+    max: number
+  }
+  // Genders the user wants to be shown; empty means everyone
+  lookingFor: string[]
+}
+
+// Who sees the user's Music Moments; 'matches' means active matches only
+export type MomentVisibility = 'everyone' | 'matches' | 'nobody'
+
+// What the user's currently playing track is shared with (lib/momentSettings)
+export interface MomentSettings {
+  visibility: MomentVisibility
+  incognitoUntil: Date | null // nothing is shared until then
+  // Never shared, whatever the visibility. Artists match by Spotify ID or by
+  // name ignoring case; genres match any of the artist's Spotify genres.
+  hiddenArtists: string[]
+  hiddenGenres: string[]
+}
+
+// Where the stored musicProfile came from; richer sources replace poorer ones
+export type MusicProfileSource = 'questionnaire' | 'history-import' | 'listening-history' | 'scrobbles'
+
+// State of the recently-played poller (lib/listeningHistoryPoller) for a user
+export interface ListeningHistorySync {
+  cursor: number | null // played_at of the newest stored play, epoch milliseconds
+  polledAt: Date
+  storedPlays: number // plays stored by the last poll
+  error: string | null
+}
+
+// Shape of a document in the `users` collection. The NextAuth adapter owns
+// name/email/image; everything else is written by our own ingestion code.
+export interface UserDocument {
+  _id: ObjectId
+  name?: string
+  email?: string
+  image?: string
+  playlistId?: string
+  photoUrl?: string
+  location?: GeoPoint
+  birthdate?: Date
+  gender?: string
+  preferences?: MatchPreferences
+  momentSettings?: MomentSettings
+  musicProfile?: UserMusicProfile
+  musicProfileUpdatedAt?: Date
+  musicProfileSource?: MusicProfileSource
+  listeningHistorySync?: ListeningHistorySync
+  // Set by lib/listeningHistoryPoller for users with a linked Spotify account
+  spotifyLinked?: boolean
+  playlistProfile?: PlaylistProfile
+  playlistTracks?: Track[]
+  listenerPersonality?: ListenerPersonality
+  // Derived from the fields above by utils/tasteVector.ts
+  tasteVector?: number[]
+  tasteVectorUpdatedAt?: Date
+}
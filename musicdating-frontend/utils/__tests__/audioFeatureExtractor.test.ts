@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { extractAudioFeatures } from '../audioFeatureExtractor'
+import { mulberry32 } from '../hnswIndex'
+
+const SAMPLE_RATE = 44100
+
+function render(seconds: number, signal: (t: number) => number) {
+  return {
+    samples: Float32Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => signal(i / SAMPLE_RATE)),
+    sampleRate: SAMPLE_RATE
+  }
+}
+
+// 30 ms decaying 1 kHz blips on every beat
+const clicks = (bpm: number) => (t: number) => {
+  const sinceBeat = t % (60 / bpm)
+  return sinceBeat < 0.03 ? 0.8 * Math.sin(2 * Math.PI * 1000 * t) * (1 - sinceBeat / 0.03) : 0
+}
+
+const chord = (frequencies: number[], amplitude = 0.2) => (t: number) =>
+  frequencies.reduce((sum, frequency) => sum + amplitude * Math.sin(2 * Math.PI * frequency * t), 0)
+
+const C_MAJOR = [261.63, 329.63, 392]
+const A_MINOR = [220, 261.63, 329.63]
+const UNIT_FEATURES = ['danceability', 'energy', 'speechiness', 'acousticness', 'instrumentalness', 'liveness', 'valence'] as const
+
+describe('extractAudioFeatures', () => {
+  it.each([90, 120, 140])('measures the tempo of a %i BPM click track', bpm => {
+    const { tempo } = extractAudioFeatures(render(10, clicks(bpm)), 'clicks')
+    expect(Math.abs(tempo - bpm)).toBeLessThan(1)
+  })
+
+  it('finds the key and mode of sustained chords', () => {
+    expect(extractAudioFeatures(render(10, chord(C_MAJOR)), 'c-major')).toMatchObject({ key: 0, mode: 1 })
+    expect(extractAudioFeatures(render(10, chord(A_MINOR)), 'a-minor')).toMatchObject({ key: 9, mode: 0 })
+  })
+
+  it('reports loudness as the mean power in dBFS', () => {
+    // Three sines of amplitude 0.2 carry 3 * 0.2² / 2 = 0.06 of full scale
+    const features = extractAudioFeatures(render(10, chord(C_MAJOR)), 'chord')
+    expect(features.loudness).toBeCloseTo(10 * Math.log10(0.06), 0)
+  })
+
+  it('scores louder audio as more energetic', () => {
+    const loud = extractAudioFeatures(render(10, chord(C_MAJOR)), 'loud')
+    const quiet = extractAudioFeatures(render(10, chord(C_MAJOR, 0.01)), 'quiet')
+    expect(loud.energy).toBeGreaterThan(quiet.energy)
+  })
+
+  it('hears noise as less acoustic and more live than a tonal chord', () => {
+    const random = mulberry32(1)
+    const noise = extractAudioFeatures(render(5, () => random() - 0.5), 'noise')
+    const tonal = extractAudioFeatures(render(5, chord(C_MAJOR)), 'tonal')
+    expect(noise.acousticness).toBeLessThan(tonal.acousticness)
+    expect(noise.liveness).toBeGreaterThan(tonal.liveness)
+  })
+
+  it('keeps every descriptor between 0 and 1', () => {
+    const random = mulberry32(2)
+    const mix = (t: number) => clicks(128)(t) + chord(A_MINOR, 0.1)(t) + 0.05 * (random() - 0.5)
+    const features = extractAudioFeatures(render(10, mix), 'mix')
+    UNIT_FEATURES.forEach(name => {
+      expect(features[name]).toBeGreaterThanOrEqual(0)
+      expect(features[name]).toBeLessThanOrEqual(1)
+    })
+  })
+
+  it('reports silence as the quietest level without a key', () => {
+    expect(extractAudioFeatures(render(5, () => 0), 'silence')).toMatchObject({ key: -1, loudness: -60, energy: 0 })
+  })
+
+  it('reports the length of the audio analyzed as its duration', () => {
+    expect(extractAudioFeatures(render(5, chord(C_MAJOR)), 'chord')).toMatchObject({ id: 'chord', duration_ms: 5000 })
+  })
+
+  it('rejects clips too short to analyze', () => {
+    expect(() => extractAudioFeatures(render(2, chord(C_MAJOR)), 'short')).toThrow('Need at least 3 seconds')
+  })
+})
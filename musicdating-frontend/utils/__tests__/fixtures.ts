@@ -0,0 +1,80 @@
+import { Track } from '../../types/spotify'
+import { MusicData } from '../scorers'
+import { PlaylistProfile } from '../playlistAnalyzer'
+import { UserMusicProfile } from '../listeningHistoryMatcher'
+
+// Fixed timestamp so recency weighting doesn't depend on when tests run
+export const NOW = Date.UTC(2024, 0, 15, 12)
+const HOUR = 60 * 60 * 1000
+
+function profile(
+  tracks: string[],
+  artists: string[],
+  genres: string[],
+  morning: string[] = []
+): UserMusicProfile {
+  return {
+    recentTracks: tracks.map((trackId, index) => ({
+      trackId,
+      timestamp: NOW - (index + 1) * HOUR,
+      playCount: 1,
+      duration: 200
+    })),
+    topArtists: artists.map((id, index) => ({ id, name: id, weight: 1 - index * 0.1 })),
+    topGenres: genres.map((name, index) => ({ name, weight: 1 - index * 0.2 })),
+    listeningPatterns: {
+      morningTracks: morning,
+      afternoonTracks: [],
+      eveningTracks: [],
+      weekendTracks: []
+    }
+  }
+}
+
+function playlist(genres: string[], mood: PlaylistProfile['moodProfile'], energy: number): PlaylistProfile {
+  return {
+    dominantGenres: genres,
+    averageFeatures: {
+      danceability: energy,
+      energy,
+      valence: mood.happy,
+      tempo: 90 + energy * 60,
+      acousticness: 1 - energy,
+      instrumentalness: 0.1,
+      genres
+    },
+    moodProfile: mood,
+    diversity: 0.5
+  }
+}
+
+function tracks(ids: string[]): Track[] {
+  return ids.map(id => ({ id, name: id, artists: [{ id: `artist-${id}`, name: `Artist ${id}` }] }) as Track)
+}
+
+export const indieFan: MusicData = {
+  musicProfile: profile(['t1', 't2', 't3', 't4'], ['a1', 'a2', 'a3'], ['indie', 'indie pop', 'dream pop'], ['t1']),
+  playlistProfile: playlist(['indie', 'dream pop'], { happy: 0.6, energetic: 0.5, relaxed: 0.6, melancholic: 0.3 }, 0.5),
+  playlistTracks: tracks(['t1', 't2', 't5'])
+}
+
+// Mostly the same taste as indieFan
+export const indieFriend: MusicData = {
+  musicProfile: profile(['t1', 't2', 't3', 't9'], ['a1', 'a2', 'a7'], ['indie', 'indie pop', 'shoegaze'], ['t1']),
+  playlistProfile: playlist(['indie', 'shoegaze'], { happy: 0.55, energetic: 0.5, relaxed: 0.65, melancholic: 0.35 }, 0.45),
+  playlistTracks: tracks(['t1', 't3', 't9'])
+}
+
+// Nothing in common with indieFan
+export const metalHead: MusicData = {
+  musicProfile: profile(['m1', 'm2', 'm3'], ['b1', 'b2'], ['metal', 'thrash metal'], ['m1']),
+  playlistProfile: playlist(['metal'], { happy: 0.1, energetic: 0.95, relaxed: 0.05, melancholic: 0.6 }, 0.95),
+  playlistTracks: tracks(['m1', 'm2'])
+}
+
+// A new user who hasn't listened to anything yet
+export const emptyProfile: MusicData = {
+  musicProfile: profile([], [], []),
+  playlistProfile: undefined,
+  playlistTracks: []
+}
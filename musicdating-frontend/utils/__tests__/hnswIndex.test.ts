@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { HnswIndex, mulberry32 } from '../hnswIndex'
+
+const DIMENSION = 16
+
+function randomVectors(count: number, seed: number): number[][] {
+  const random = mulberry32(seed)
+  return Array.from({ length: count }, () => Array.from({ length: DIMENSION }, () => random() * 2 - 1))
+}
+
+function cosineDistance(a: number[], b: number[]): number {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0)
+  const norm = (vector: number[]) => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return 1 - dot / (norm(a) * norm(b))
+}
+
+function buildIndex(vectors: number[][], seed?: number): HnswIndex {
+  const index = new HnswIndex(DIMENSION, { seed })
+  vectors.forEach((vector, i) => index.add(`user-${i}`, vector))
+  return index
+}
+
+describe('HnswIndex', () => {
+  const vectors = randomVectors(600, 1)
+  const queries = randomVectors(40, 2)
+  const index = buildIndex(vectors)
+
+  it('finds most of the exact nearest neighbors', () => {
+    const k = 10
+    let found = 0
+
+    queries.forEach(query => {
+      const exact = vectors
+        .map((vector, i) => ({ id: `user-${i}`, distance: cosineDistance(query, vector) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, k)
+        .map(result => result.id)
+      const approximate = new Set(index.search(query, k).map(result => result.id))
+      found += exact.filter(id => approximate.has(id)).length
+    })
+
+    expect(found / (queries.length * k)).toBeGreaterThan(0.95)
+  })
+
+  it('returns results closest first with cosine distances', () => {
+    const results = index.search(queries[0], 5)
+    expect(results).toHaveLength(5)
+    results.forEach((result, i) => {
+      const vector = vectors[Number(result.id.slice('user-'.length))]
+      expect(result.distance).toBeCloseTo(cosineDistance(queries[0], vector), 10)
+      if (i > 0) expect(result.distance).toBeGreaterThanOrEqual(results[i - 1].distance)
+    })
+  })
+
+  it('builds the same graph for the same seed and input', () => {
+    const again = buildIndex(vectors)
+    expect(again.toJSON()).toEqual(index.toJSON())
+    queries.forEach(query => expect(again.search(query, 10)).toEqual(index.search(query, 10)))
+  })
+
+  it('assigns levels from the seed', () => {
+    const levels = (built: HnswIndex) => built.toJSON().nodes.map(node => node.level)
+    const small = vectors.slice(0, 200)
+    expect(levels(buildIndex(small, 7))).toEqual(levels(buildIndex(small, 7)))
+    expect(levels(buildIndex(small, 7))).not.toEqual(levels(buildIndex(small, 8)))
+  })
+
+  it('restores from JSON and keeps building deterministically', () => {
+    const restored = HnswIndex.fromJSON(JSON.parse(JSON.stringify(buildIndex(vectors.slice(0, 300)).toJSON())))
+    const original = buildIndex(vectors.slice(0, 300))
+    vectors.slice(300, 350).forEach((vector, i) => {
+      restored.add(`user-${300 + i}`, vector)
+      original.add(`user-${300 + i}`, vector)
+    })
+
+    expect(restored.size).toBe(350)
+    expect(restored.toJSON()).toEqual(original.toJSON())
+  })
+
+  it('rejects duplicate ids and vectors of the wrong length', () => {
+    const small = buildIndex(vectors.slice(0, 3))
+    expect(() => small.add('user-0', vectors[0])).toThrow('already in the index')
+    expect(() => small.add('other', [1, 2, 3])).toThrow(`Expected a vector of length ${DIMENSION}`)
+    expect(() => small.search([1, 2, 3], 1)).toThrow(`Expected a vector of length ${DIMENSION}`)
+  })
+
+  it('returns nothing from an empty index', () => {
+    expect(new HnswIndex(DIMENSION).search(queries[0], 5)).toEqual([])
+  })
+})
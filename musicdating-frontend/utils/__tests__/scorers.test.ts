@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { CompositeRanker } from '../compositeRanker'
+import { canScore, defaultScorerRegistry } from '../scorers'
+import { NOW, emptyProfile, indieFan, indieFriend, metalHead } from './fixtures'
+
+const context = { now: NOW }
+
+describe.each(defaultScorerRegistry.list().map(scorer => [scorer.id, scorer] as const))('%s scorer', (_, scorer) => {
+  it('is deterministic', () => {
+    expect(scorer.score(indieFan, indieFriend, context)).toBe(scorer.score(indieFan, indieFriend, context))
+  })
+
+  it('gives the same score from either side', () => {
+    expect(scorer.score(indieFan, indieFriend, context)).toBeCloseTo(scorer.score(indieFriend, indieFan, context), 10)
+  })
+
+  it('stays within its declared range', () => {
+    for (const candidate of [indieFan, indieFriend, metalHead]) {
+      const score = scorer.score(indieFan, candidate, context)
+      expect(score).toBeGreaterThanOrEqual(scorer.range[0])
+      expect(score).toBeLessThanOrEqual(scorer.range[1])
+    }
+  })
+
+  it('scores shared taste above no shared taste', () => {
+    expect(scorer.score(indieFan, indieFriend, context)).toBeGreaterThan(scorer.score(indieFan, metalHead, context))
+  })
+})
+
+describe('taste-overlap scorer', () => {
+  const scorer = defaultScorerRegistry.get('taste-overlap')
+
+  it('scores identical profiles as a perfect match', () => {
+    expect(scorer.score(indieFan, indieFan, context)).toBeCloseTo(1, 10)
+  })
+
+  it('scores disjoint profiles as 0', () => {
+    expect(scorer.score(indieFan, metalHead, context)).toBe(0)
+  })
+
+  it('scores empty profiles as 0 instead of NaN', () => {
+    expect(scorer.score(emptyProfile, emptyProfile, context)).toBe(0)
+  })
+})
+
+describe('CompositeRanker', () => {
+  const ranker = new CompositeRanker({
+    name: 'test',
+    weights: { 'taste-overlap': 1, 'listening-history': 1, playlist: 1 }
+  })
+
+  it('ranks candidates by blended score', () => {
+    const ranked = ranker.rank(indieFan, [metalHead, emptyProfile, indieFriend], context)
+    expect(ranked[0].musicProfile).toBe(indieFriend.musicProfile)
+    expect(ranked.map(candidate => candidate.score)).toEqual(
+      [...ranked.map(candidate => candidate.score)].sort((a, b) => b - a)
+    )
+  })
+
+  it('skips scorers without their inputs and keeps scores in [0, 1]', () => {
+    expect(canScore(defaultScorerRegistry.get('playlist'), indieFan, emptyProfile)).toBe(false)
+
+    const { score, explanation } = ranker.explain(indieFan, emptyProfile, context)
+    expect(explanation.contributions.map(({ scorer }) => scorer)).not.toContain('playlist')
+    expect(explanation.contributions.reduce((total, { weight }) => total + weight, 0)).toBeCloseTo(1, 10)
+    expect(score).toBeGreaterThanOrEqual(0)
+    expect(score).toBeLessThanOrEqual(1)
+  })
+
+  it('rejects unknown scorers and invalid weights', () => {
+    expect(() => new CompositeRanker({ name: 'typo', weights: { 'tast-overlap': 1 } })).toThrow('Unknown scorer')
+    expect(() => new CompositeRanker({ name: 'negative', weights: { playlist: -1 } })).toThrow('Invalid weight')
+  })
+})
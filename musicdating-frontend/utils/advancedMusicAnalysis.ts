@@ -1,5 +1,8 @@
 import * as tf from '@tensorflow/tfjs'
+import type { Db } from 'mongodb'
+import SpotifyWebApi from 'spotify-web-api-node'
 import { Track, Artist, AudioFeatures } from '../types/spotify'
+import { getCachedArtists, getCachedAudioFeatures } from '../lib/spotifyCache'
 
 interface AdvancedPlaylistProfile {
   genreSignature: GenreSignature
@@ -59,7 +62,7 @@ interface ArtistNetwork {
   }
 }
 
-interface ListenerPersonality {
+export interface ListenerPersonality {
   openness: number
   consistency: number
   eclecticism: number
@@ -75,6 +78,21 @@ export class AdvancedMusicAnalyzer {
     this.model = await tf.loadLayersModel('/models/music_analysis_model.json')
   }
 
+  /**
+   * Loads audio features and full artist objects for `tracks` through the
+   * Spotify catalog cache, then analyzes them like analyzePlaylist.
+   */
+  async analyzeTracks(db: Db, spotifyApi: SpotifyWebApi, tracks: Track[]): Promise<AdvancedPlaylistProfile> {
+    const [features, artists] = await Promise.all([
+      getCachedAudioFeatures(db, spotifyApi, tracks.map(track => track.id)),
+      getCachedArtists(db, spotifyApi, tracks.flatMap(track => track.artists.map(artist => artist.id)))
+    ])
+
+    // Spotify's image sizes can be null, and images aren't analyzed anyway
+    const artistList: Artist[] = Array.from(artists.values()).map(({ images, ...artist }) => artist)
+    return this.analyzePlaylist(tracks, Array.from(features.values()), artistList)
+  }
+
   async analyzePlaylist(
     tracks: Track[],
     audioFeatures: AudioFeatures[],
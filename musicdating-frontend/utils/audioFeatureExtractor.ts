@@ -0,0 +1,312 @@
+import type { DecodedAudio } from '../lib/audioDecoder'
+import { AudioFeatures } from '../types/spotify'
+
+// Analysis runs at ~22 kHz: enough bandwidth for brightness measures and
+// half the work of 44.1 kHz previews
+const TARGET_SAMPLE_RATE = 22050
+const FRAME_SIZE = 2048
+const HOP_SIZE = 512
+const MIN_DURATION_SECONDS = 3
+
+const MIN_BPM = 60
+const MAX_BPM = 200
+// Tempo estimates are biased towards this with a one-octave log-normal spread,
+// which settles half/double-tempo ambiguity the way listeners usually do
+const PREFERRED_BPM = 120
+
+// Frames quieter than this are treated as silence
+const SILENCE_DB = -60
+
+// Chroma is read from the range where harmonic content dominates and
+// semitones are at least a bin apart
+const CHROMA_MIN_HZ = 160
+const CHROMA_MAX_HZ = 5000
+const VOCAL_MIN_HZ = 300
+const VOCAL_MAX_HZ = 3400
+
+// Krumhansl-Kessler key profiles, starting at the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88]
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+// Weakest profile correlation still reported as a key; Spotify uses -1 for "no key"
+const MIN_KEY_CORRELATION = 0.3
+
+interface FrameFeatures {
+  db: number[]
+  zeroCrossingRate: number[]
+  centroid: number[] // Hz
+  flatness: number[] // 0 (tonal) to 1 (noise)
+  vocalBandRatio: number[]
+  onset: number[] // spectral flux
+  chroma: number[] // 12 pitch classes from C, summed over all frames
+}
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value))
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0)
+const std = (values: number[]) => {
+  const average = mean(values)
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)))
+}
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] ?? 0
+}
+
+// Box-filter decimation by an integer factor; the averaging doubles as a
+// (crude) anti-aliasing filter
+function downsample({ samples, sampleRate }: DecodedAudio): DecodedAudio {
+  const factor = Math.max(1, Math.floor(sampleRate / TARGET_SAMPLE_RATE))
+  if (factor === 1) return { samples, sampleRate }
+
+  const output = new Float32Array(Math.floor(samples.length / factor))
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j]
+    output[i] = sum / factor
+  }
+  return { samples: output, sampleRate: sampleRate / factor }
+}
+
+// In-place iterative radix-2 FFT; `real.length` must be a power of two
+function fft(real: Float64Array, imag: Float64Array) {
+  const n = real.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      ;[real[i], real[j]] = [real[j], real[i]]
+      ;[imag[i], imag[j]] = [imag[j], imag[i]]
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const tr = real[b] * cos - imag[b] * sin
+        const ti = real[b] * sin + imag[b] * cos
+        real[b] = real[a] - tr
+        imag[b] = imag[a] - ti
+        real[a] += tr
+        imag[a] += ti
+      }
+    }
+  }
+}
+
+function analyzeFrames({ samples, sampleRate }: DecodedAudio): FrameFeatures {
+  const window = Float64Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)))
+  // Scales magnitudes so a full-scale sine peaks at ~1
+  const magnitudeScale = 2 / window.reduce((sum, value) => sum + value, 0)
+  const bins = FRAME_SIZE / 2
+  const binHz = sampleRate / FRAME_SIZE
+
+  const pitchClass = Array.from({ length: bins }, (_, bin) => {
+    const hz = bin * binHz
+    if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) return -1
+    const midi = Math.round(69 + 12 * Math.log2(hz / 440))
+    return ((midi % 12) + 12) % 12
+  })
+
+  const features: FrameFeatures = {
+    db: [],
+    zeroCrossingRate: [],
+    centroid: [],
+    flatness: [],
+    vocalBandRatio: [],
+    onset: [],
+    chroma: new Array(12).fill(0)
+  }
+  const real = new Float64Array(FRAME_SIZE)
+  const imag = new Float64Array(FRAME_SIZE)
+  let previous: Float64Array | null = null
+
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    let energy = 0
+    let crossings = 0
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = samples[start + i]
+      energy += sample * sample
+      if (i > 0 && (sample >= 0) !== (samples[start + i - 1] >= 0)) crossings++
+      real[i] = sample * window[i]
+      imag[i] = 0
+    }
+    fft(real, imag)
+
+    const magnitudes = new Float64Array(bins)
+    let total = 0
+    let weighted = 0
+    let logSum = 0
+    let vocal = 0
+    let flux = 0
+    for (let bin = 1; bin < bins; bin++) {
+      const magnitude = Math.hypot(real[bin], imag[bin]) * magnitudeScale
+      const power = magnitude * magnitude + 1e-12
+      magnitudes[bin] = magnitude
+      total += power
+      weighted += power * bin * binHz
+      logSum += Math.log(power)
+      if (bin * binHz >= VOCAL_MIN_HZ && bin * binHz <= VOCAL_MAX_HZ) vocal += power
+      if (pitchClass[bin] >= 0) features.chroma[pitchClass[bin]] += magnitude
+      // Log-compressed, half-wave rectified flux: only rising energy marks an onset
+      if (previous) flux += Math.max(0, Math.log1p(100 * magnitude) - Math.log1p(100 * previous[bin]))
+    }
+
+    features.db.push(10 * Math.log10(energy / FRAME_SIZE + 1e-12))
+    features.zeroCrossingRate.push(crossings / FRAME_SIZE)
+    features.centroid.push(weighted / total)
+    features.flatness.push(Math.exp(logSum / (bins - 1)) / (total / (bins - 1)))
+    features.vocalBandRatio.push(vocal / total)
+    features.onset.push(flux / bins)
+    previous = magnitudes
+  }
+
+  return features
+}
+
+// Autocorrelation of the mean-removed onset envelope, normalized so lag 0 is 1
+function autocorrelate(envelope: number[], maxLag: number): number[] {
+  const average = mean(envelope)
+  const centered = envelope.map(value => value - average)
+  const result: number[] = []
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0
+    for (let i = lag; i < centered.length; i++) sum += centered[i] * centered[i - lag]
+    result.push(sum)
+  }
+  return result.map(value => (result[0] > 0 ? value / result[0] : 0))
+}
+
+function estimateRhythm(onset: number[], frameRate: number) {
+  const minLag = Math.floor((60 * frameRate) / MAX_BPM)
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM)
+  const correlation = autocorrelate(onset, Math.min(onset.length - 1, maxLag * 4))
+
+  let bestLag = 0
+  let bestScore = -Infinity
+  for (let lag = minLag; lag <= Math.min(maxLag, correlation.length - 1); lag++) {
+    const bpm = (60 * frameRate) / lag
+    const prior = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2)
+    const score = correlation[lag] * prior
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision
+  const [left, center, right] = [correlation[bestLag - 1], correlation[bestLag], correlation[bestLag + 1]]
+  const denominator = left - 2 * center + right
+  const offset = left !== undefined && right !== undefined && denominator !== 0 ? (0.5 * (left - right)) / denominator : 0
+  const lag = bestLag + clamp(offset, -0.5, 0.5)
+
+  // Bars of three beats correlate more strongly at three beats than at four
+  const at = (beats: number) => correlation[Math.round(lag * beats)] ?? 0
+  return {
+    tempo: lag > 0 ? (60 * frameRate) / lag : 0,
+    pulseClarity: clamp(correlation[bestLag] ?? 0),
+    timeSignature: at(3) > at(4) ? 3 : 4
+  }
+}
+
+function estimateKey(chroma: number[]): { key: number; mode: number } {
+  const correlate = (profile: number[], tonic: number) => {
+    const rotated = chroma.map((_, pitch) => chroma[(pitch + tonic) % 12])
+    const [meanA, meanB] = [mean(rotated), mean(profile)]
+    let covariance = 0
+    let varianceA = 0
+    let varianceB = 0
+    rotated.forEach((value, i) => {
+      covariance += (value - meanA) * (profile[i] - meanB)
+      varianceA += (value - meanA) ** 2
+      varianceB += (profile[i] - meanB) ** 2
+    })
+    return varianceA > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0
+  }
+
+  let best = { key: -1, mode: 1, correlation: MIN_KEY_CORRELATION }
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const major = correlate(MAJOR_PROFILE, tonic)
+    const minor = correlate(MINOR_PROFILE, tonic)
+    if (major > best.correlation) best = { key: tonic, mode: 1, correlation: major }
+    if (minor > best.correlation) best = { key: tonic, mode: 0, correlation: minor }
+  }
+  return { key: best.key, mode: best.mode }
+}
+
+// Local maxima of the onset envelope standing clear of its typical level
+function countOnsets(onset: number[]): number {
+  const threshold = mean(onset) + std(onset)
+  return onset.filter((value, i) => value > threshold && value >= (onset[i - 1] ?? 0) && value > (onset[i + 1] ?? 0)).length
+}
+
+/**
+ * Estimates Spotify-style audio features from decoded audio (usually a
+ * 30-second preview). Tempo, loudness, key and mode are measured; the 0-1
+ * descriptors are heuristic proxies built from rhythm, loudness and timbre
+ * statistics, good enough to compare tracks with each other but not
+ * calibrated against Spotify's own values. duration_ms is the length of the
+ * audio analyzed, so callers should replace it with the track's duration.
+ */
+export function extractAudioFeatures(audio: DecodedAudio, id: string): AudioFeatures {
+  const decimated = downsample(audio)
+  if (decimated.samples.length < MIN_DURATION_SECONDS * decimated.sampleRate) {
+    throw new Error(`Need at least ${MIN_DURATION_SECONDS} seconds of audio to extract features`)
+  }
+
+  const frames = analyzeFrames(decimated)
+  const frameRate = decimated.sampleRate / HOP_SIZE
+  const seconds = decimated.samples.length / decimated.sampleRate
+  const audible = frames.db.flatMap((db, i) => (db > SILENCE_DB ? [i] : []))
+  const over = (values: number[]) => audible.map(i => values[i])
+
+  // Mean power of the non-silent frames, in dBFS
+  const loudness = audible.length
+    ? 10 * Math.log10(mean(over(frames.db).map(db => 10 ** (db / 10))))
+    : SILENCE_DB
+  const { tempo, pulseClarity, timeSignature } = estimateRhythm(frames.onset, frameRate)
+  const { key, mode } = estimateKey(frames.chroma)
+
+  // Every proxy below is a 0-1 score
+  const loudnessScore = clamp((loudness + 30) / 25) // -30 dBFS and quieter reads as 0, -5 dBFS as 1
+  const brightness = clamp((mean(over(frames.centroid)) - 800) / 2700)
+  const onsetRate = clamp(countOnsets(frames.onset) / seconds / 8)
+  const dynamicRange = clamp((percentile(over(frames.db), 0.95) - percentile(over(frames.db), 0.1)) / 30)
+  const flatness = mean(over(frames.flatness))
+  // Speech alternates voiced (few zero crossings) and unvoiced (many) sounds
+  const zcr = over(frames.zeroCrossingRate)
+  const zcrVariation = mean(zcr) > 0 ? std(zcr) / mean(zcr) : 0
+  const vocalPresence = clamp((mean(over(frames.vocalBandRatio)) - 0.35) / 0.4) * clamp(zcrVariation / 0.8)
+  const tempoFit = Math.exp(-0.5 * ((tempo - 118) / 30) ** 2)
+
+  const energy = clamp(0.5 * loudnessScore + 0.25 * brightness + 0.25 * onsetRate)
+  // Acoustic recordings are darker, less compressed and more tonal
+  const acousticness = clamp(1 - (0.45 * brightness + 0.35 * (1 - dynamicRange) + 0.2 * clamp(flatness * 5)))
+  const speechiness = clamp(0.6 * clamp((zcrVariation - 0.6) / 1.2) + 0.4 * vocalPresence * (1 - pulseClarity))
+  // Audience noise fills the gaps of live recordings, keeping quiet frames noisy
+  const quietFrames = [...audible]
+    .sort((a, b) => frames.db[a] - frames.db[b])
+    .slice(0, Math.max(1, Math.floor(audible.length * 0.2)))
+
+  return {
+    id,
+    danceability: clamp(0.65 * clamp(pulseClarity / 0.5) + 0.35 * tempoFit),
+    energy,
+    key,
+    loudness: Math.max(SILENCE_DB, loudness),
+    mode,
+    speechiness,
+    acousticness,
+    instrumentalness: clamp(1 - vocalPresence - speechiness),
+    liveness: clamp((mean(quietFrames.map(i => frames.flatness[i])) - 0.1) / 0.4),
+    // Major keys, faster tempos and brighter, more energetic mixes read as happier
+    valence: clamp(0.3 * mode + 0.2 * clamp((tempo - 60) / 120) + 0.25 * brightness + 0.25 * energy),
+    tempo: Math.round(tempo * 1000) / 1000,
+    duration_ms: Math.round((audio.samples.length / audio.sampleRate) * 1000),
+    time_signature: timeSignature
+  }
+}
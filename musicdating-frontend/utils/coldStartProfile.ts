@@ -0,0 +1,136 @@
+import onboardingConfig from '../config/onboarding.json'
+import { UserMusicProfile } from './listeningHistoryMatcher'
+import {
+  PlaylistProfile,
+  TrackFeatures,
+  calculateDiversity,
+  calculateMoodProfile
+} from './playlistAnalyzer'
+
+export type Mood = keyof PlaylistProfile['moodProfile']
+
+export interface OnboardingAnswers {
+  // In order of preference, most loved first
+  artists: { id: string; name: string; genres?: string[] }[]
+  genres: string[]
+  moods: Mood[]
+  // 1 (dislike) to 5 (love) for tracks from config/onboarding.json
+  seedRatings: { trackId: string; rating: number }[]
+}
+
+const seedTracks = new Map(onboardingConfig.seedTracks.map(track => [track.id, track]))
+const MOODS: Mood[] = ['happy', 'energetic', 'relaxed', 'melancholic']
+
+// Ratings of 4 and 5 count as liking a track
+const LIKE_THRESHOLD = 4
+
+export function validateOnboardingAnswers(input: any): OnboardingAnswers | string {
+  const { artists = [], genres = [], moods = [], seedRatings = [] } = input || {}
+
+  if (!Array.isArray(artists) || artists.some((a: any) => typeof a?.id !== 'string' || typeof a?.name !== 'string')) {
+    return 'artists must be a list of { id, name }'
+  }
+  if (!Array.isArray(genres) || genres.some((g: any) => typeof g !== 'string')) {
+    return 'genres must be a list of strings'
+  }
+  if (!Array.isArray(moods) || moods.some((m: any) => !MOODS.includes(m))) {
+    return `moods must be any of ${MOODS.join(', ')}`
+  }
+  if (
+    !Array.isArray(seedRatings) ||
+    seedRatings.some((r: any) => !seedTracks.has(r?.trackId) || ![1, 2, 3, 4, 5].includes(r?.rating))
+  ) {
+    return 'seedRatings must rate known seed tracks from 1 to 5'
+  }
+  if (artists.length + genres.length + seedRatings.length === 0) {
+    return 'Pick at least one artist, genre or seed track'
+  }
+
+  return { artists, genres, moods, seedRatings }
+}
+
+/**
+ * Builds the same profiles Spotify ingestion produces from questionnaire
+ * answers, so users without listening history can be scored like anyone
+ * else. Anything the user skipped is left empty rather than guessed.
+ */
+export function buildColdStartProfile(
+  answers: OnboardingAnswers,
+  now: number = Date.now()
+): { musicProfile: UserMusicProfile; playlistProfile: PlaylistProfile } {
+  const likedTracks = answers.seedRatings
+    .filter(rating => rating.rating >= LIKE_THRESHOLD)
+    .map(rating => ({ ...seedTracks.get(rating.trackId)!, rating: rating.rating }))
+
+  const topArtists = answers.artists.map((artist, index) => ({
+    id: artist.id,
+    name: artist.name,
+    weight: (answers.artists.length - index) / answers.artists.length
+  }))
+
+  // Explicit genre picks count double compared to genres implied by artists and tracks
+  const genreCounts = new Map<string, number>()
+  const addGenre = (genre: string, count: number) =>
+    genreCounts.set(genre, (genreCounts.get(genre) || 0) + count)
+  answers.genres.forEach(genre => addGenre(genre, 2))
+  answers.artists.forEach(artist => (artist.genres || []).forEach(genre => addGenre(genre, 1)))
+  likedTracks.forEach(track => track.genres.forEach(genre => addGenre(genre, 1)))
+
+  const maxCount = Math.max(0, ...genreCounts.values())
+  const topGenres = Array.from(genreCounts.entries())
+    .map(([name, count]) => ({ name, weight: count / maxCount }))
+    .sort((a, b) => b.weight - a.weight)
+
+  const recentTracks = likedTracks.map(track => ({
+    trackId: track.id,
+    timestamp: now,
+    playCount: track.rating - LIKE_THRESHOLD + 1,
+    duration: track.durationMs / 1000
+  }))
+
+  const dominantGenres = topGenres.slice(0, 5).map(genre => genre.name)
+  const trackFeatures: TrackFeatures[] = likedTracks.map(track => ({ ...track.features, genres: track.genres }))
+  const averageFeatures = averageTrackFeatures(trackFeatures, dominantGenres)
+
+  return {
+    musicProfile: {
+      recentTracks,
+      topArtists,
+      topGenres,
+      listeningPatterns: {
+        morningTracks: [],
+        afternoonTracks: [],
+        eveningTracks: [],
+        weekendTracks: []
+      }
+    },
+    playlistProfile: {
+      dominantGenres,
+      averageFeatures,
+      moodProfile: blendMoods(trackFeatures.length > 0 ? calculateMoodProfile(averageFeatures) : null, answers.moods),
+      diversity: calculateDiversity(trackFeatures)
+    }
+  }
+}
+
+function averageTrackFeatures(tracks: TrackFeatures[], genres: string[]): TrackFeatures {
+  const keys = ['danceability', 'energy', 'valence', 'tempo', 'acousticness', 'instrumentalness'] as const
+  const average = { genres } as TrackFeatures
+  keys.forEach(key => {
+    average[key] = tracks.length > 0
+      ? tracks.reduce((sum, track) => sum + track[key], 0) / tracks.length
+      : 0
+  })
+  return average
+}
+
+// Stated moods pull the feature-derived mood halfway towards them
+function blendMoods(fromFeatures: PlaylistProfile['moodProfile'] | null, moods: Mood[]): PlaylistProfile['moodProfile'] {
+  const stated = Object.fromEntries(MOODS.map(mood => [mood, moods.includes(mood) ? 1 : 0])) as PlaylistProfile['moodProfile']
+  if (!fromFeatures) return stated
+  if (moods.length === 0) return fromFeatures
+
+  return Object.fromEntries(
+    MOODS.map(mood => [mood, (fromFeatures[mood] + stated[mood]) / 2])
+  ) as PlaylistProfile['moodProfile']
+}
@@ -0,0 +1,94 @@
+import {
+  MusicData,
+  ScorerRegistry,
+  ScoringContext,
+  canScore,
+  defaultScorerRegistry
+} from './scorers'
+import { MatchExplanation, ScoreContribution, explainSharedTaste } from './matchExplanation'
+
+export interface RankingStrategy {
+  name: string
+  weights: Record<string, number>
+}
+
+export interface ScoredCandidate {
+  score: number
+  explanation: MatchExplanation
+}
+
+export class CompositeRanker {
+  constructor(
+    private strategy: RankingStrategy,
+    private registry: ScorerRegistry = defaultScorerRegistry
+  ) {
+    Object.entries(strategy.weights).forEach(([id, weight]) => {
+      // Throws for unknown ids so a typo in the config fails loudly
+      registry.get(id)
+      if (!Number.isFinite(weight) || weight < 0) {
+        throw new Error(`Invalid weight ${weight} for scorer "${id}" in strategy "${strategy.name}"`)
+      }
+    })
+  }
+
+  get name(): string {
+    return this.strategy.name
+  }
+
+  /**
+   * Blends every weighted scorer that has the inputs it needs. Outputs are
+   * normalized by each scorer's declared range and the weights of skipped
+   * scorers are redistributed, so the result is always in [0, 1].
+   */
+  score(user: MusicData, candidate: MusicData, context: ScoringContext): number {
+    return this.contributions(user, candidate, context)
+      .reduce((total, { contribution }) => total + contribution, 0)
+  }
+
+  explain(user: MusicData, candidate: MusicData, context: ScoringContext): ScoredCandidate {
+    const contributions = this.contributions(user, candidate, context)
+    return {
+      score: contributions.reduce((total, { contribution }) => total + contribution, 0),
+      explanation: { ...explainSharedTaste(user, candidate), contributions }
+    }
+  }
+
+  rank<T extends MusicData>(
+    user: MusicData,
+    candidates: T[],
+    context: ScoringContext
+  ): (T & ScoredCandidate)[] {
+    return candidates
+      .map(candidate => ({ ...candidate, ...this.explain(user, candidate, context) }))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  private contributions(
+    user: MusicData,
+    candidate: MusicData,
+    context: ScoringContext
+  ): ScoreContribution[] {
+    const applicable = Object.entries(this.strategy.weights)
+      .map(([id, weight]) => ({ scorer: this.registry.get(id), weight }))
+      .filter(({ scorer, weight }) => weight > 0 && canScore(scorer, user, candidate))
+    const totalWeight = applicable.reduce((total, { weight }) => total + weight, 0)
+
+    return applicable.map(({ scorer, weight }) => {
+      const score = normalize(scorer.score(user, candidate, context), scorer.range)
+      const share = weight / totalWeight
+      return {
+        scorer: scorer.id,
+        label: scorer.label,
+        score,
+        weight: share,
+        contribution: score * share
+      }
+    })
+  }
+}
+
+// Empty profiles make some scorers divide by zero, so treat NaN as no signal
+function normalize(score: number, [min, max]: [number, number]): number {
+  if (!Number.isFinite(score) || max <= min) return 0
+  return Math.min(1, Math.max(0, (score - min) / (max - min)))
+}
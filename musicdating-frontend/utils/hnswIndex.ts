@@ -0,0 +1,302 @@
+export interface HnswOptions {
+  m?: number // max links per node on upper layers; layer 0 allows 2 * m
+  efConstruction?: number // candidate list size while inserting
+  efSearch?: number // default candidate list size while searching
+  seed?: number // level assignment is random; a fixed seed makes builds reproducible
+}
+
+export interface SearchResult {
+  id: string
+  distance: number // cosine distance, 0 = same direction, 2 = opposite
+}
+
+export interface HnswNode {
+  id: string
+  vector: number[]
+  level: number
+  neighbors: number[][] // per layer, indexes into `nodes`
+}
+
+// Plain-JSON form of a built index, see toJSON and HnswIndex.fromJSON
+export interface SerializedHnswIndex {
+  dimension: number
+  options: Required<HnswOptions>
+  entryPoint: number
+  maxLevel: number
+  nodes: HnswNode[]
+}
+
+interface Candidate {
+  index: number
+  distance: number
+}
+
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016) for
+ * approximate nearest-neighbor search under cosine distance. Vectors are
+ * normalized on insert. The index is append-only: rebuild it to pick up
+ * changed or deleted vectors.
+ */
+export class HnswIndex {
+  private nodes: HnswNode[] = []
+  private indexById = new Map<string, number>()
+  private entryPoint = -1
+  private maxLevel = -1
+  private m: number
+  private mMax0: number
+  private efConstruction: number
+  private efSearch: number
+  private seed: number
+  private levelMultiplier: number
+  private random: () => number
+
+  constructor(readonly dimension: number, options: HnswOptions = {}) {
+    this.m = options.m ?? 16
+    this.mMax0 = this.m * 2
+    this.efConstruction = options.efConstruction ?? 200
+    this.efSearch = options.efSearch ?? 50
+    this.seed = options.seed ?? 42
+    this.levelMultiplier = 1 / Math.log(this.m)
+    this.random = mulberry32(this.seed)
+  }
+
+  /**
+   * Restores an index saved with toJSON. The level generator is advanced
+   * past the draws already made (one per node), so adding to a restored
+   * index builds the same graph as adding to the original.
+   */
+  static fromJSON(data: SerializedHnswIndex): HnswIndex {
+    const index = new HnswIndex(data.dimension, data.options)
+    index.nodes = data.nodes
+    index.nodes.forEach((node, position) => {
+      index.indexById.set(node.id, position)
+      index.random()
+    })
+    index.entryPoint = data.entryPoint
+    index.maxLevel = data.maxLevel
+    return index
+  }
+
+  toJSON(): SerializedHnswIndex {
+    return {
+      dimension: this.dimension,
+      options: { m: this.m, efConstruction: this.efConstruction, efSearch: this.efSearch, seed: this.seed },
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes
+    }
+  }
+
+  get size(): number {
+    return this.nodes.length
+  }
+
+  has(id: string): boolean {
+    return this.indexById.has(id)
+  }
+
+  add(id: string, vector: number[]) {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Expected a vector of length ${this.dimension}, got ${vector.length}`)
+    }
+    if (this.indexById.has(id)) {
+      throw new Error(`"${id}" is already in the index`)
+    }
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier)
+    const index = this.nodes.length
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => [])
+    }
+    this.nodes.push(node)
+    this.indexById.set(id, index)
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index
+      this.maxLevel = level
+      return
+    }
+
+    // Descend through the layers above the new node's level greedily...
+    let current = this.entryPoint
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(node.vector, current, layer)
+    }
+
+    // ...then link it to its nearest neighbors on every layer it lives on
+    let entries = [current]
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entries, this.efConstruction, layer)
+      node.neighbors[layer] = candidates.slice(0, this.m).map(candidate => candidate.index)
+      node.neighbors[layer].forEach(neighbor => this.link(neighbor, index, layer))
+      entries = candidates.map(candidate => candidate.index)
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level
+      this.entryPoint = index
+    }
+  }
+
+  search(query: number[], k: number, ef: number = Math.max(this.efSearch, k)): SearchResult[] {
+    if (this.entryPoint === -1) return []
+    if (query.length !== this.dimension) {
+      throw new Error(`Expected a vector of length ${this.dimension}, got ${query.length}`)
+    }
+
+    const normalized = normalize(query)
+    let current = this.entryPoint
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(normalized, current, layer)
+    }
+
+    return this.searchLayer(normalized, [current], ef, 0)
+      .slice(0, k)
+      .map(({ index, distance }) => ({ id: this.nodes[index].id, distance }))
+  }
+
+  private distance(vector: number[], index: number): number {
+    const other = this.nodes[index].vector
+    let dot = 0
+    for (let i = 0; i < vector.length; i++) {
+      dot += vector[i] * other[i]
+    }
+    return 1 - dot
+  }
+
+  private greedyClosest(vector: number[], start: number, layer: number): number {
+    let current = start
+    let currentDistance = this.distance(vector, current)
+    let improved = true
+
+    while (improved) {
+      improved = false
+      for (const neighbor of this.nodes[current].neighbors[layer]) {
+        const distance = this.distance(vector, neighbor)
+        if (distance < currentDistance) {
+          current = neighbor
+          currentDistance = distance
+          improved = true
+        }
+      }
+    }
+
+    return current
+  }
+
+  // Best-first search on one layer; returns up to `ef` nodes, closest first
+  private searchLayer(vector: number[], entries: number[], ef: number, layer: number): Candidate[] {
+    const visited = new Set(entries)
+    const candidates = new BinaryHeap<Candidate>((a, b) => a.distance - b.distance)
+    const results = new BinaryHeap<Candidate>((a, b) => b.distance - a.distance)
+
+    entries.forEach(index => {
+      const candidate = { index, distance: this.distance(vector, index) }
+      candidates.push(candidate)
+      results.push(candidate)
+      if (results.size > ef) results.pop()
+    })
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!
+      if (results.size >= ef && closest.distance > results.peek()!.distance) break
+
+      for (const neighbor of this.nodes[closest.index].neighbors[layer]) {
+        if (visited.has(neighbor)) continue
+        visited.add(neighbor)
+
+        const distance = this.distance(vector, neighbor)
+        if (results.size < ef || distance < results.peek()!.distance) {
+          const candidate = { index: neighbor, distance }
+          candidates.push(candidate)
+          results.push(candidate)
+          if (results.size > ef) results.pop()
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance)
+  }
+
+  // Adds a back-link, dropping the farthest links when the node is over capacity
+  private link(from: number, to: number, layer: number) {
+    const neighbors = this.nodes[from].neighbors[layer]
+    neighbors.push(to)
+
+    const maxLinks = layer === 0 ? this.mMax0 : this.m
+    if (neighbors.length > maxLinks) {
+      const vector = this.nodes[from].vector
+      neighbors.sort((a, b) => this.distance(vector, a) - this.distance(vector, b))
+      neighbors.length = maxLinks
+    }
+  }
+}
+
+class BinaryHeap<T> {
+  private items: T[] = []
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length
+  }
+
+  peek(): T | undefined {
+    return this.items[0]
+  }
+
+  push(item: T) {
+    this.items.push(item)
+    let index = this.items.length - 1
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (this.compare(this.items[index], this.items[parent]) >= 0) break
+      ;[this.items[index], this.items[parent]] = [this.items[parent], this.items[index]]
+      index = parent
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0]
+    const last = this.items.pop()
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last
+      let index = 0
+      while (true) {
+        const left = index * 2 + 1
+        const right = left + 1
+        let smallest = index
+        if (left < this.items.length && this.compare(this.items[left], this.items[smallest]) < 0) smallest = left
+        if (right < this.items.length && this.compare(this.items[right], this.items[smallest]) < 0) smallest = right
+        if (smallest === index) break
+        ;[this.items[index], this.items[smallest]] = [this.items[smallest], this.items[index]]
+        index = smallest
+      }
+    }
+    return top
+  }
+
+  toArray(): T[] {
+    return [...this.items]
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm === 0 ? [...vector] : vector.map(value => value / norm)
+}
+
+// Small seeded PRNG so level assignment (and therefore the graph) is reproducible
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -1,4 +1,5 @@
 import { Track, AudioFeatures } from '../types/spotify'
+import { MusicSource, SourceArtist, SourcePlay } from '../lib/musicSource'
 
 export interface ListeningHistory {
   trackId: string
@@ -11,6 +12,7 @@ export interface UserMusicProfile {
   recentTracks: ListeningHistory[]
   topArtists: {
     id: string
+    name?: string
     weight: number
   }[]
   topGenres: {
@@ -25,34 +27,60 @@ export interface UserMusicProfile {
   }
 }
 
+// Aggregated plays from the listeningHistory collection, see lib/listeningHistoryImport
+export interface StoredHistorySummary {
+  tracks: {
+    trackId: string
+    plays: number
+    lastPlayedAt: number
+    averageMsPlayed: number
+  }[] // most recently played first
+  listeningPatterns: UserMusicProfile['listeningPatterns']
+}
+
 export class ListeningHistoryMatcher {
   private static RECENCY_WINDOW = 30 * 24 * 60 * 60 * 1000 // 30 days in milliseconds
-  private static LISTENING_THRESHOLD = 30 // seconds
-
-  async analyzeListeningHistory(
-    spotifyApi: any,
-    timeRange: 'short_term' | 'medium_term' | 'long_term' = 'short_term'
-  ): Promise<UserMusicProfile> {
-    const [
-      recentlyPlayed,
-      topTracks,
-      topArtists,
-    ] = await Promise.all([
-      spotifyApi.getMyRecentlyPlayedTracks({ limit: 50 }),
-      spotifyApi.getMyTopTracks({ time_range: timeRange, limit: 50 }),
-      spotifyApi.getMyTopArtists({ time_range: timeRange, limit: 20 }),
+  static LISTENING_THRESHOLD = 30 // seconds
+  // Caps on what a profile keeps, so long histories fit on the user document
+  static MAX_PROFILE_TRACKS = 500
+  static MAX_PATTERN_TRACKS = 100
+
+  // Works with any provider: lib/spotifySource for Spotify, or scrobble
+  // exports for users without it. Sources live in lib/ so this file stays
+  // safe to import from client code
+  async analyzeMusicSource(source: MusicSource): Promise<UserMusicProfile> {
+    const [recentPlays, topArtists] = await Promise.all([
+      source.getRecentPlays(),
+      source.getTopArtists(),
     ])
 
-    const listeningHistory = this.processRecentlyPlayed(recentlyPlayed.items)
-    const topArtistWeights = this.calculateArtistWeights(topArtists.items)
-    const topGenreWeights = this.calculateGenreWeights(topArtists.items)
-    const listeningPatterns = this.analyzeDailyPatterns(recentlyPlayed.items)
+    return {
+      recentTracks: this.processRecentlyPlayed(recentPlays),
+      topArtists: this.calculateArtistWeights(topArtists),
+      topGenres: this.calculateGenreWeights(topArtists),
+      listeningPatterns: this.analyzeDailyPatterns(recentPlays),
+    }
+  }
 
+  /**
+   * Builds a profile from imported listening history rather than the last 50
+   * plays the API exposes. `topArtists` are the most played artists, most
+   * played first.
+   */
+  analyzeStoredHistory(
+    history: StoredHistorySummary,
+    topArtists: SourceArtist[]
+  ): UserMusicProfile {
     return {
-      recentTracks: listeningHistory,
-      topArtists: topArtistWeights,
-      topGenres: topGenreWeights,
-      listeningPatterns,
+      recentTracks: history.tracks.map(track => ({
+        trackId: track.trackId,
+        timestamp: track.lastPlayedAt,
+        playCount: track.plays,
+        duration: track.averageMsPlayed / 1000,
+      })),
+      topArtists: this.calculateArtistWeights(topArtists),
+      topGenres: this.calculateGenreWeights(topArtists),
+      listeningPatterns: history.listeningPatterns,
     }
   }
 
@@ -62,7 +90,8 @@ export class ListeningHistoryMatcher {
       id: string
       playlist: Track[]
       profile: UserMusicProfile
-    }
+    },
+    now: number = Date.now()
   ): number {
     const weights = {
       recentTrackOverlap: 0.4,
@@ -74,7 +103,8 @@ export class ListeningHistoryMatcher {
     const scores = {
       recentTrackOverlap: this.calculateRecentTrackOverlap(
         userProfile.recentTracks,
-        potentialMatch.playlist
+        potentialMatch.playlist,
+        now
       ),
       artistSimilarity: this.calculateArtistSimilarity(
         userProfile.topArtists,
@@ -96,37 +126,38 @@ export class ListeningHistoryMatcher {
     )
   }
 
-  private processRecentlyPlayed(tracks: SpotifyApi.PlayHistoryObject[]): ListeningHistory[] {
-    const now = Date.now()
-    const trackCounts = new Map<string, { count: number; timestamps: number[]; duration: number }>()
+  // One entry per track, most recently played first
+  private processRecentlyPlayed(plays: SourcePlay[]): ListeningHistory[] {
+    const trackCounts = new Map<string, { count: number; lastPlayedAt: number; duration: number }>()
 
-    tracks.forEach(track => {
-      const trackId = track.track.id
-      const timestamp = new Date(track.played_at).getTime()
-      const duration = track.track.duration_ms / 1000
+    plays.forEach(play => {
+      const trackId = play.track.id
+      const duration = (play.track.durationMs ?? 0) / 1000
 
       if (!trackCounts.has(trackId)) {
-        trackCounts.set(trackId, { count: 0, timestamps: [], duration })
+        trackCounts.set(trackId, { count: 0, lastPlayedAt: 0, duration })
       }
 
       const trackData = trackCounts.get(trackId)!
       trackData.count++
-      trackData.timestamps.push(timestamp)
+      trackData.lastPlayedAt = Math.max(trackData.lastPlayedAt, play.playedAt)
     })
 
     return Array.from(trackCounts.entries())
       .map(([trackId, data]) => ({
         trackId,
-        timestamp: Math.max(...data.timestamps),
+        timestamp: data.lastPlayedAt,
         playCount: data.count,
         duration: data.duration,
       }))
       .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, ListeningHistoryMatcher.MAX_PROFILE_TRACKS)
   }
 
   private calculateRecentTrackOverlap(
     userHistory: ListeningHistory[],
-    matchPlaylist: Track[]
+    matchPlaylist: Track[],
+    now: number
   ): number {
     const recentTrackIds = new Set(userHistory.map(h => h.trackId))
     const matchTrackIds = new Set(matchPlaylist.map(t => t.id))
@@ -139,7 +170,7 @@ export class ListeningHistoryMatcher {
       const history = userHistory.find(h => h.trackId === trackId)
       if (history) {
         const recency = Math.exp(
-          -(Date.now() - history.timestamp) / ListeningHistoryMatcher.RECENCY_WINDOW
+          -(now - history.timestamp) / ListeningHistoryMatcher.RECENCY_WINDOW
         )
         weightedScore += recency * (history.playCount / 10) // Normalize play count
       }
@@ -182,33 +213,38 @@ export class ListeningHistoryMatcher {
     return Math.min(1, similarity)
   }
 
-  private calculateListeningPatternMatch(
+  calculateListeningPatternMatch(
     userPatterns: UserMusicProfile['listeningPatterns'],
     matchPatterns: UserMusicProfile['listeningPatterns']
   ): number {
     const patterns = ['morningTracks', 'afternoonTracks', 'eveningTracks', 'weekendTracks'] as const
     
     let totalMatch = 0
+    let comparedPatterns = 0
     patterns.forEach(pattern => {
       const userTracks = new Set(userPatterns[pattern])
       const matchTracks = new Set(matchPatterns[pattern])
+      // Skip time slots neither user has listened in
+      if (userTracks.size === 0 && matchTracks.size === 0) return
       
       const overlap = new Set([...userTracks].filter(x => matchTracks.has(x)))
       totalMatch += overlap.size / Math.max(userTracks.size, matchTracks.size)
+      comparedPatterns++
     })
 
-    return totalMatch / patterns.length
+    return comparedPatterns > 0 ? totalMatch / comparedPatterns : 0
   }
 
-  private calculateArtistWeights(artists: SpotifyApi.ArtistObjectFull[]): { id: string; weight: number }[] {
+  private calculateArtistWeights(artists: SourceArtist[]): UserMusicProfile['topArtists'] {
     const totalArtists = artists.length
     return artists.map((artist, index) => ({
       id: artist.id,
+      name: artist.name,
       weight: (totalArtists - index) / totalArtists, // Higher weight for top artists
     }))
   }
 
-  private calculateGenreWeights(artists: SpotifyApi.ArtistObjectFull[]): { name: string; weight: number }[] {
+  private calculateGenreWeights(artists: SourceArtist[]): { name: string; weight: number }[] {
     const genreCounts = new Map<string, number>()
     
     artists.forEach(artist => {
@@ -217,6 +253,8 @@ export class ListeningHistoryMatcher {
       })
     })
 
+    if (genreCounts.size === 0) return []
+
     const maxCount = Math.max(...genreCounts.values())
     return Array.from(genreCounts.entries())
       .map(([name, count]) => ({
@@ -226,34 +264,50 @@ export class ListeningHistoryMatcher {
       .sort((a, b) => b.weight - a.weight)
   }
 
+  // Distinct tracks per time slot, most played first and capped so long
+  // scrobble histories still fit on the user document. Slots use UTC, like
+  // summarizeListeningHistory in lib/listeningHistoryImport
   private analyzeDailyPatterns(
-    tracks: SpotifyApi.PlayHistoryObject[]
+    plays: SourcePlay[]
   ): UserMusicProfile['listeningPatterns'] {
-    const patterns: UserMusicProfile['listeningPatterns'] = {
-      morningTracks: [],
-      afternoonTracks: [],
-      eveningTracks: [],
-      weekendTracks: [],
+    const counts: Record<keyof UserMusicProfile['listeningPatterns'], Map<string, number>> = {
+      morningTracks: new Map(),
+      afternoonTracks: new Map(),
+      eveningTracks: new Map(),
+      weekendTracks: new Map(),
     }
+    const count = (slot: keyof typeof counts, trackId: string) =>
+      counts[slot].set(trackId, (counts[slot].get(trackId) || 0) + 1)
 
-    tracks.forEach(track => {
-      const playedAt = new Date(track.played_at)
-      const hour = playedAt.getHours()
-      const isWeekend = playedAt.getDay() === 0 || playedAt.getDay() === 6
+    plays.forEach(play => {
+      const playedAt = new Date(play.playedAt)
+      const hour = playedAt.getUTCHours()
+      const isWeekend = playedAt.getUTCDay() === 0 || playedAt.getUTCDay() === 6
 
       if (isWeekend) {
-        patterns.weekendTracks.push(track.track.id)
+        count('weekendTracks', play.track.id)
       }
 
       if (hour >= 5 && hour < 12) {
-        patterns.morningTracks.push(track.track.id)
+        count('morningTracks', play.track.id)
       } else if (hour >= 12 && hour < 18) {
-        patterns.afternoonTracks.push(track.track.id)
+        count('afternoonTracks', play.track.id)
       } else {
-        patterns.eveningTracks.push(track.track.id)
+        count('eveningTracks', play.track.id)
       }
     })
 
-    return patterns
+    const mostPlayed = (slot: Map<string, number>) =>
+      Array.from(slot.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, ListeningHistoryMatcher.MAX_PATTERN_TRACKS)
+        .map(([trackId]) => trackId)
+
+    return {
+      morningTracks: mostPlayed(counts.morningTracks),
+      afternoonTracks: mostPlayed(counts.afternoonTracks),
+      eveningTracks: mostPlayed(counts.eveningTracks),
+      weekendTracks: mostPlayed(counts.weekendTracks),
+    }
   }
 }
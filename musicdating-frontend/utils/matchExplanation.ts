@@ -0,0 +1,109 @@
+import { ListeningHistoryMatcher } from './listeningHistoryMatcher'
+import { calculateMoodDistance } from './playlistAnalyzer'
+import { MusicData } from './scorers'
+
+export interface ScoreContribution {
+  scorer: string
+  label: string
+  score: number // normalized to [0, 1]
+  weight: number // share of the total weight actually used, sums to 1
+  contribution: number // score * weight, contributions sum to the match score
+}
+
+export interface MatchExplanation {
+  sharedTrackIds: string[]
+  sharedArtists: { id: string; name?: string }[]
+  sharedGenres: string[]
+  moodDistance: number | null
+  listeningPatternOverlap: number | null
+  contributions: ScoreContribution[]
+}
+
+const listeningHistoryMatcher = new ListeningHistoryMatcher()
+
+/**
+ * Collects what two users have in common, independent of how the ranker
+ * weighted it. Lists are ordered by how much both users care about the item.
+ */
+export function explainSharedTaste(
+  user: MusicData,
+  candidate: MusicData
+): Omit<MatchExplanation, 'contributions'> {
+  return {
+    sharedTrackIds: intersect(trackIds(user), trackIds(candidate)),
+    sharedArtists: sharedArtists(user, candidate),
+    sharedGenres: sharedGenres(user, candidate),
+    moodDistance: user.playlistProfile && candidate.playlistProfile
+      ? calculateMoodDistance(user.playlistProfile.moodProfile, candidate.playlistProfile.moodProfile)
+      : null,
+    listeningPatternOverlap: user.musicProfile && candidate.musicProfile
+      ? listeningHistoryMatcher.calculateListeningPatternMatch(
+        user.musicProfile.listeningPatterns,
+        candidate.musicProfile.listeningPatterns
+      )
+      : null
+  }
+}
+
+/**
+ * Short human summary for cards, e.g. "You both love Phoebe Bridgers and boygenius".
+ * Falls back to genres when the shared artists have no stored names.
+ */
+export function describeSharedTaste(explanation: MatchExplanation): string | null {
+  const artistNames = explanation.sharedArtists
+    .map(artist => artist.name)
+    .filter((name): name is string => Boolean(name))
+  const highlights = artistNames.length > 0 ? artistNames : explanation.sharedGenres
+
+  if (highlights.length === 0) return null
+  if (highlights.length === 1) return `You both love ${highlights[0]}`
+  return `You both love ${highlights[0]} and ${highlights[1]}`
+}
+
+function trackIds(data: MusicData): string[] {
+  const ids = new Set<string>()
+  data.musicProfile?.recentTracks.forEach(track => ids.add(track.trackId))
+  data.playlistTracks?.forEach(track => ids.add(track.id))
+  return Array.from(ids)
+}
+
+function sharedArtists(user: MusicData, candidate: MusicData): MatchExplanation['sharedArtists'] {
+  const userArtists = new Map((user.musicProfile?.topArtists || []).map(a => [a.id, a]))
+  const names = new Map<string, string>()
+  const collectNames = (data: MusicData) => {
+    data.musicProfile?.topArtists.forEach(a => a.name && names.set(a.id, a.name))
+    data.playlistTracks?.forEach(track => track.artists.forEach(a => names.set(a.id, a.name)))
+  }
+  collectNames(user)
+  collectNames(candidate)
+
+  return (candidate.musicProfile?.topArtists || [])
+    .filter(artist => userArtists.has(artist.id))
+    .map(artist => ({ id: artist.id, weight: artist.weight * userArtists.get(artist.id)!.weight }))
+    .sort((a, b) => b.weight - a.weight)
+    .map(({ id }) => ({ id, name: names.get(id) }))
+}
+
+function sharedGenres(user: MusicData, candidate: MusicData): string[] {
+  const genreWeights = (data: MusicData) => {
+    const weights = new Map<string, number>()
+    data.musicProfile?.topGenres.forEach(g => weights.set(g.name, g.weight))
+    data.playlistProfile?.dominantGenres.forEach(genre => {
+      if (!weights.has(genre)) weights.set(genre, 0.5)
+    })
+    return weights
+  }
+  const userGenres = genreWeights(user)
+  const candidateGenres = genreWeights(candidate)
+
+  return Array.from(userGenres.keys())
+    .filter(genre => candidateGenres.has(genre))
+    .sort((a, b) =>
+      userGenres.get(b)! * candidateGenres.get(b)! - userGenres.get(a)! * candidateGenres.get(a)!
+    )
+}
+
+function intersect(a: string[], b: string[]): string[] {
+  const set = new Set(b)
+  return a.filter(item => set.has(item))
+}
@@ -23,7 +23,7 @@ export class MatchingAlgorithm {
     const track1Ids = new Set(tracks1.map(t => t.trackId))
     const track2Ids = new Set(tracks2.map(t => t.trackId))
     const commonTracks = new Set([...track1Ids].filter(id => track2Ids.has(id)))
-    return commonTracks.size / Math.max(track1Ids.size, track2Ids.size)
+    return overlapRatio(commonTracks.size, track1Ids.size, track2Ids.size)
   }
 
   private calculateArtistScore(
@@ -33,7 +33,7 @@ export class MatchingAlgorithm {
     const artist1Ids = new Set(artists1.map(a => a.id))
     const artist2Ids = new Set(artists2.map(a => a.id))
     const commonArtists = new Set([...artist1Ids].filter(id => artist2Ids.has(id)))
-    return commonArtists.size / Math.max(artist1Ids.size, artist2Ids.size)
+    return overlapRatio(commonArtists.size, artist1Ids.size, artist2Ids.size)
   }
 
   private calculateGenreScore(
@@ -43,6 +43,12 @@ export class MatchingAlgorithm {
     const genre1Set = new Set(genres1.map(g => g.name))
     const genre2Set = new Set(genres2.map(g => g.name))
     const commonGenres = new Set([...genre1Set].filter(name => genre2Set.has(name)))
-    return commonGenres.size / Math.max(genre1Set.size, genre2Set.size)
+    return overlapRatio(commonGenres.size, genre1Set.size, genre2Set.size)
   }
 }
+
+// Empty profiles (e.g. new users) share nothing rather than scoring NaN
+function overlapRatio(common: number, size1: number, size2: number): number {
+  const largest = Math.max(size1, size2)
+  return largest > 0 ? common / largest : 0
+}
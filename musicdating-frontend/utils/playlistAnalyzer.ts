@@ -1,4 +1,4 @@
-interface TrackFeatures {
+export interface TrackFeatures {
   danceability: number
   energy: number
   valence: number
@@ -8,7 +8,7 @@ interface TrackFeatures {
   genres: string[]
 }
 
-interface PlaylistProfile {
+export interface PlaylistProfile {
   dominantGenres: string[]
   averageFeatures: TrackFeatures
   moodProfile: {
@@ -20,25 +20,17 @@ interface PlaylistProfile {
   diversity: number
 }
 
-export async function analyzePlaylist(
-  spotifyApi: any,
-  playlistId: string
-): Promise<PlaylistProfile> {
-  // Get playlist tracks
-  const tracks = await spotifyApi.getPlaylistTracks(playlistId)
-  const trackIds = tracks.items.map((item: any) => item.track.id)
-  
-  // Get audio features for all tracks
-  const audioFeatures = await spotifyApi.getAudioFeaturesForTracks(trackIds)
-  
-  // Get artist genres
-  const artistIds = [...new Set(tracks.items.map((item: any) => item.track.artists[0].id))]
-  const artists = await spotifyApi.getArtists(artistIds)
-  
-  // Calculate dominant genres
+/**
+ * Profile of a playlist from each track's genres (those of all its credited
+ * artists) and the audio features found for its tracks. Fetching both is
+ * left to the caller (lib/playlistAnalysis) so this stays safe to import
+ * from client code.
+ */
+export function buildPlaylistProfile(trackGenres: string[][], audioFeatures: TrackFeatures[]): PlaylistProfile {
+  // Calculate dominant genres, counting each genre once per track
   const genreCount: { [key: string]: number } = {}
-  artists.forEach((artist: any) => {
-    artist.genres.forEach((genre: string) => {
+  trackGenres.forEach(genres => {
+    new Set(genres).forEach(genre => {
       genreCount[genre] = (genreCount[genre] || 0) + 1
     })
   })
@@ -70,19 +62,15 @@ export async function analyzePlaylist(
     }
   )
 
+  // An empty playlist keeps all-zero features instead of dividing by zero
   Object.keys(averageFeatures).forEach((key) => {
-    if (key !== 'genres') {
+    if (key !== 'genres' && audioFeatures.length > 0) {
       averageFeatures[key as keyof Omit<TrackFeatures, 'genres'>] /= audioFeatures.length
     }
   })
 
   // Calculate mood profile
-  const moodProfile = {
-    happy: (averageFeatures.valence + averageFeatures.energy) / 2,
-    energetic: averageFeatures.energy,
-    relaxed: (averageFeatures.acousticness + (1 - averageFeatures.energy)) / 2,
-    melancholic: (1 - averageFeatures.valence + averageFeatures.acousticness) / 2,
-  }
+  const moodProfile = calculateMoodProfile(averageFeatures)
 
   // Calculate musical diversity (standard deviation of features)
   const diversity = calculateDiversity(audioFeatures)
@@ -95,7 +83,18 @@ export async function analyzePlaylist(
   }
 }
 
-function calculateDiversity(audioFeatures: TrackFeatures[]): number {
+export function calculateMoodProfile(features: TrackFeatures): PlaylistProfile['moodProfile'] {
+  return {
+    happy: (features.valence + features.energy) / 2,
+    energetic: features.energy,
+    relaxed: (features.acousticness + (1 - features.energy)) / 2,
+    melancholic: (1 - features.valence + features.acousticness) / 2,
+  }
+}
+
+export function calculateDiversity(audioFeatures: TrackFeatures[]): number {
+  if (audioFeatures.length === 0) return 0
+
   const features = ['danceability', 'energy', 'valence', 'acousticness']
   const variances = features.map((feature) => {
     const values = audioFeatures.map((track) => track[feature as keyof TrackFeatures] as number)
@@ -115,7 +114,8 @@ export function calculatePlaylistCompatibility(
   const commonGenres = profile1.dominantGenres.filter((genre) =>
     profile2.dominantGenres.includes(genre)
   ).length
-  const genreScore = (commonGenres / Math.min(profile1.dominantGenres.length, profile2.dominantGenres.length)) * 0.3
+  const minGenres = Math.min(profile1.dominantGenres.length, profile2.dominantGenres.length)
+  const genreScore = minGenres > 0 ? (commonGenres / minGenres) * 0.3 : 0
 
   // Mood compatibility (40% weight)
   const moodScore = (1 - calculateMoodDistance(profile1.moodProfile, profile2.moodProfile)) * 0.4
@@ -129,7 +129,7 @@ export function calculatePlaylistCompatibility(
   return genreScore + moodScore + featureScore + diversityScore
 }
 
-function calculateMoodDistance(mood1: PlaylistProfile['moodProfile'], mood2: PlaylistProfile['moodProfile']): number {
+export function calculateMoodDistance(mood1: PlaylistProfile['moodProfile'], mood2: PlaylistProfile['moodProfile']): number {
   const keys = Object.keys(mood1) as (keyof typeof mood1)[]
   const distances = keys.map((key) => Math.pow(mood1[key] - mood2[key], 2))
   return Math.sqrt(distances.reduce((a, b) => a + b) / keys.length)
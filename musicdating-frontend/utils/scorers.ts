@@ -0,0 +1,111 @@
+import { MatchingAlgorithm } from './matchingAlgorithm'
+import { ListeningHistoryMatcher } from './listeningHistoryMatcher'
+import { calculatePlaylistCompatibility } from './playlistAnalyzer'
+import { UserDocument } from '../types/user'
+
+export type ScorerInput = 'musicProfile' | 'playlistProfile' | 'playlistTracks'
+
+export type MusicData = Pick<UserDocument, ScorerInput>
+
+export interface ScoringContext {
+  now: number
+}
+
+export interface Scorer {
+  id: string
+  label: string
+  description: string
+  // Fields both users must have for the scorer to run. Optional inputs
+  // (e.g. playlistTracks for the listening matcher) are not listed.
+  inputs: ScorerInput[]
+  // Raw output range, used by the composite ranker to normalize to [0, 1]
+  range: [number, number]
+  score(user: MusicData, candidate: MusicData, context: ScoringContext): number
+}
+
+export class ScorerRegistry {
+  private scorers = new Map<string, Scorer>()
+
+  register(scorer: Scorer): this {
+    if (this.scorers.has(scorer.id)) {
+      throw new Error(`Scorer "${scorer.id}" is already registered`)
+    }
+    this.scorers.set(scorer.id, scorer)
+    return this
+  }
+
+  get(id: string): Scorer {
+    const scorer = this.scorers.get(id)
+    if (!scorer) {
+      throw new Error(`Unknown scorer "${id}"`)
+    }
+    return scorer
+  }
+
+  has(id: string): boolean {
+    return this.scorers.has(id)
+  }
+
+  list(): Scorer[] {
+    return Array.from(this.scorers.values())
+  }
+}
+
+export function canScore(scorer: Scorer, user: MusicData, candidate: MusicData): boolean {
+  return scorer.inputs.every(input => user[input] != null && candidate[input] != null)
+}
+
+const matchingAlgorithm = new MatchingAlgorithm()
+const listeningHistoryMatcher = new ListeningHistoryMatcher()
+
+export const tasteOverlapScorer: Scorer = {
+  id: 'taste-overlap',
+  label: 'Taste overlap',
+  description: 'Shared recent tracks, top artists and genres (MatchingAlgorithm)',
+  inputs: ['musicProfile'],
+  range: [0, 1],
+  score: (user, candidate) =>
+    matchingAlgorithm.calculateMatchScore(user.musicProfile!, candidate.musicProfile!)
+}
+
+export const listeningHistoryScorer: Scorer = {
+  id: 'listening-history',
+  label: 'Listening history',
+  description: 'Recency-weighted track overlap, artist/genre weights and daily patterns',
+  inputs: ['musicProfile'],
+  range: [0, 1],
+  score: (user, candidate, { now }) => {
+    // The listening matcher is asymmetric (my history vs. your playlist), so
+    // average both directions to make the score the same for either user.
+    const forward = listeningHistoryMatcher.calculateMatchScore(
+      user.musicProfile!,
+      { id: 'candidate', playlist: candidate.playlistTracks || [], profile: candidate.musicProfile! },
+      now
+    )
+    const backward = listeningHistoryMatcher.calculateMatchScore(
+      candidate.musicProfile!,
+      { id: 'user', playlist: user.playlistTracks || [], profile: user.musicProfile! },
+      now
+    )
+    return (forward + backward) / 2
+  }
+}
+
+export const playlistScorer: Scorer = {
+  id: 'playlist',
+  label: 'Playlist vibe',
+  description: 'Genre, mood, audio feature and diversity similarity of defining playlists',
+  inputs: ['playlistProfile'],
+  range: [0, 1],
+  score: (user, candidate) =>
+    calculatePlaylistCompatibility(user.playlistProfile!, candidate.playlistProfile!)
+}
+
+export function createDefaultScorerRegistry(): ScorerRegistry {
+  return new ScorerRegistry()
+    .register(tasteOverlapScorer)
+    .register(listeningHistoryScorer)
+    .register(playlistScorer)
+}
+
+export const defaultScorerRegistry = createDefaultScorerRegistry()
@@ -0,0 +1,99 @@
+import { UserDocument } from '../types/user'
+
+type TasteData = Pick<UserDocument, 'musicProfile' | 'playlistProfile' | 'listenerPersonality'>
+
+const AUDIO_FEATURES = [
+  'danceability',
+  'energy',
+  'valence',
+  'tempo',
+  'acousticness',
+  'instrumentalness'
+] as const
+
+const PERSONALITY_TRAITS = [
+  'openness',
+  'consistency',
+  'eclecticism',
+  'exploratoryNature',
+  'loyaltyToArtists'
+] as const
+
+// Genres are open-ended, so they are hashed into a fixed number of buckets
+const GENRE_BUCKETS = 32
+
+// Relative influence of each block once it has been unit-normalized
+const BLOCK_WEIGHTS = {
+  audio: 0.4,
+  genres: 0.45,
+  personality: 0.15
+}
+
+export const TASTE_VECTOR_LENGTH = AUDIO_FEATURES.length + GENRE_BUCKETS + PERSONALITY_TRAITS.length
+
+/**
+ * Fixed-length taste vector: averaged audio features, hashed genre weights
+ * and listener personality traits. Each block is unit-normalized and scaled
+ * by its weight, and the whole vector has unit length, so cosine similarity
+ * is a plain dot product. Missing blocks are left as zeros.
+ */
+export function buildTasteVector(data: TasteData): number[] {
+  const audio = AUDIO_FEATURES.map(feature => {
+    const value = data.playlistProfile?.averageFeatures[feature] ?? 0
+    // Same tempo scaling as PlaylistRecommender's track embeddings
+    return feature === 'tempo' ? Math.min(value / 200, 1) : value
+  })
+
+  const genres = new Array(GENRE_BUCKETS).fill(0)
+  data.musicProfile?.topGenres.forEach(({ name, weight }) => {
+    genres[hashGenre(name)] += weight
+  })
+  data.playlistProfile?.dominantGenres.forEach((genre, index, all) => {
+    genres[hashGenre(genre)] += (all.length - index) / all.length
+  })
+
+  const personality = PERSONALITY_TRAITS.map(trait =>
+    Math.min(1, Math.max(0, data.listenerPersonality?.[trait] ?? 0))
+  )
+
+  return normalize([
+    ...scale(normalize(audio), BLOCK_WEIGHTS.audio),
+    ...scale(normalize(genres), BLOCK_WEIGHTS.genres),
+    ...scale(normalize(personality), BLOCK_WEIGHTS.personality)
+  ])
+}
+
+export function hasTasteSignal(vector: number[]): boolean {
+  return vector.some(value => value !== 0)
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+// FNV-1a, stable across processes so stored vectors stay comparable
+function hashGenre(genre: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < genre.length; i++) {
+    hash ^= genre.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % GENRE_BUCKETS
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm === 0 ? vector : vector.map(value => value / norm)
+}
+
+function scale(vector: number[], factor: number): number[] {
+  return vector.map(value => value * factor)
+}